@@ -0,0 +1,221 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { GPXValidator, type GPXValidationResult } from '../../../utils/gpxValidator';
+import { getImporter, parseRouteContent, summarizeTracks, validateRouteFile } from '../../../utils/importers';
+import { analyzeTrack, type RoutePoint } from '../../../utils/routeAnalysis';
+
+// Rate limiting store (in production, use Redis or database)
+const rateLimitStore = new Map<string, { count: number; resetTime: number }>();
+const RATE_LIMIT = 30; // requests per hour; analysis is far heavier than a weather lookup
+const RATE_LIMIT_WINDOW = 60 * 60 * 1000; // 1 hour in milliseconds
+
+// Multipart boundaries and headers add a little to the file itself
+const MAX_REQUEST_SIZE = GPXValidator.MAX_FILE_SIZE + 64 * 1024;
+
+function getRateLimitKey(request: NextRequest): string {
+  // Use IP address for rate limiting
+  const forwarded = request.headers.get('x-forwarded-for');
+  return forwarded ? forwarded.split(',')[0] : request.headers.get('x-real-ip') || 'unknown';
+}
+
+/**
+ * Reads the request body, giving up once it passes maxBytes so a chunked upload without a
+ * content-length header cannot make the server buffer an unbounded file. Null when too large.
+ */
+async function readBody(request: NextRequest, maxBytes: number): Promise<Uint8Array | null> {
+  if (!request.body) return new Uint8Array(0);
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return body;
+}
+
+/**
+ * Error body for a failed validation, with its code and where in the file it went wrong
+ */
+function validationError(validation: GPXValidationResult, status: number) {
+  return NextResponse.json(
+    {
+      error: validation.error,
+      code: validation.code,
+      line: validation.line,
+      pointIndex: validation.pointIndex,
+      waypointIndex: validation.waypointIndex
+    },
+    { status }
+  );
+}
+
+function checkRateLimit(key: string): boolean {
+  const now = Date.now();
+  const record = rateLimitStore.get(key);
+
+  if (!record || now > record.resetTime) {
+    rateLimitStore.set(key, { count: 1, resetTime: now + RATE_LIMIT_WINDOW });
+    return true;
+  }
+
+  if (record.count >= RATE_LIMIT) {
+    return false;
+  }
+
+  record.count++;
+  return true;
+}
+
+/**
+ * Shape of the analyzed track without returning every point
+ */
+function summarizeTrack(track: RoutePoint[]) {
+  const first = track[0];
+  const last = track[track.length - 1];
+  const bounds = { minLat: first.lat, maxLat: first.lat, minLon: first.lon, maxLon: first.lon };
+  let minElevation = first.ele;
+  let maxElevation = first.ele;
+  let segments = 1;
+
+  // A loop rather than Math.min(...points), which overflows the call stack on large tracks
+  track.forEach(point => {
+    bounds.minLat = Math.min(bounds.minLat, point.lat);
+    bounds.maxLat = Math.max(bounds.maxLat, point.lat);
+    bounds.minLon = Math.min(bounds.minLon, point.lon);
+    bounds.maxLon = Math.max(bounds.maxLon, point.lon);
+    minElevation = Math.min(minElevation, point.ele);
+    maxElevation = Math.max(maxElevation, point.ele);
+    if (point.segmentStart) segments++;
+  });
+
+  return {
+    points: track.length,
+    segments,
+    start: { lat: first.lat, lon: first.lon },
+    end: { lat: last.lat, lon: last.lon },
+    bounds,
+    minElevation: Math.round(minElevation),
+    maxElevation: Math.round(maxElevation)
+  };
+}
+
+/**
+ * Analyzes an uploaded route file: multipart form data with the file in "file", an optional
+ * zero-based "track" index for files with several tracks and "repair=true" to drop invalid points
+ * rather than reject the file. Distances are km, elevations meters.
+ */
+export async function POST(request: NextRequest) {
+  if (!checkRateLimit(getRateLimitKey(request))) {
+    return NextResponse.json(
+      {
+        error: 'Rate limit exceeded. Please wait before making another request.',
+        retryAfter: Math.ceil(RATE_LIMIT_WINDOW / 1000 / 60) // minutes
+      },
+      {
+        status: 429,
+        headers: {
+          'Retry-After': Math.ceil(RATE_LIMIT_WINDOW / 1000).toString()
+        }
+      }
+    );
+  }
+
+  // Refuse oversized uploads before reading the body, and stop reading one without a length that runs over
+  const tooLarge = () => NextResponse.json(
+    { error: `File too large. Maximum size is ${GPXValidator.MAX_FILE_SIZE / (1024 * 1024)}MB`, code: 'FILE_TOO_LARGE' },
+    { status: 413 }
+  );
+  const contentLength = Number(request.headers.get('content-length') || 0);
+  if (contentLength > MAX_REQUEST_SIZE) {
+    return tooLarge();
+  }
+  const body = await readBody(request, MAX_REQUEST_SIZE);
+  if (!body) {
+    return tooLarge();
+  }
+
+  let form: FormData;
+  try {
+    form = await new Response(body, {
+      headers: { 'content-type': request.headers.get('content-type') || '' }
+    }).formData();
+  } catch {
+    return NextResponse.json(
+      { error: 'Expected multipart/form-data with the route in a "file" field' },
+      { status: 400 }
+    );
+  }
+
+  const file = form.get('file');
+  if (!(file instanceof File)) {
+    return NextResponse.json(
+      { error: 'Route file is required in the "file" field' },
+      { status: 400 }
+    );
+  }
+
+  const fileValidation = validateRouteFile(file);
+  if (!fileValidation.isValid) {
+    return validationError(fileValidation, fileValidation.code === 'FILE_TOO_LARGE' ? 413 : 400);
+  }
+
+  const importer = getImporter(file.name);
+  const trackField = form.get('track');
+  const trackIndex = typeof trackField === 'string' && trackField !== '' ? Number(trackField) : 0;
+  if (!Number.isInteger(trackIndex) || trackIndex < 0) {
+    return NextResponse.json(
+      { error: 'Track must be a zero-based track index' },
+      { status: 400 }
+    );
+  }
+  const repairField = form.get('repair');
+  const repair = repairField === 'true' || repairField === '1';
+
+  try {
+    const parsed = parseRouteContent(file.name, await file.arrayBuffer(), { trackIndex, repair });
+    const route = analyzeTrack(parsed.name, parsed.points, parsed.waypoints);
+    const recording = route.recording && {
+      startTime: new Date(route.recording.startTime).toISOString(),
+      elapsedMinutes: route.recording.elapsedMinutes,
+      movingMinutes: route.recording.movingMinutes,
+      movingSpeed: route.recording.movingSpeed,
+      stops: route.recording.stops,
+      splits: route.recording.splits
+    };
+
+    return NextResponse.json({
+      name: route.name,
+      format: importer?.format,
+      distance: route.distance,
+      elevationGain: route.elevationGain,
+      rawElevationGain: route.rawElevationGain,
+      estimatedTime: route.estimatedTime,
+      climbs: route.climbs,
+      descents: route.descents,
+      aidStations: route.aidStations,
+      recording,
+      track: summarizeTrack(route.track),
+      tracks: summarizeTracks(parsed),
+      trackIndex,
+      warnings: parsed.warnings || [],
+      repairs: parsed.repairs || []
+    });
+  } catch (error) {
+    // Importer errors are rider-facing messages about the file, safe to return
+    const validation = GPXValidator.fromError(error, 'Failed to analyze route file');
+    return validationError(validation, 422);
+  }
+}
@@ -0,0 +1,123 @@
+'use client';
+
+import { useState } from 'react';
+import { Coffee, Plus, Trash2 } from 'lucide-react';
+import { GPXValidator } from '../utils/gpxValidator';
+import { AID_STATION_LABELS, type AidStation, type AidStationType } from '../utils/routeAnalysis';
+
+interface AidStationEditorProps {
+  routeStations: AidStation[]; // from GPX waypoints, read-only
+  manualStations: AidStation[];
+  unitSystem: 'US' | 'UK';
+  onManualStationsChange: (stations: AidStation[]) => void;
+}
+
+const KM_PER_MILE = 1.609344;
+
+export default function AidStationEditor({
+  routeStations,
+  manualStations,
+  unitSystem,
+  onManualStationsChange
+}: AidStationEditorProps) {
+  const [name, setName] = useState('');
+  const [distance, setDistance] = useState('');
+  const [type, setType] = useState<AidStationType>('cafe');
+
+  const unit = unitSystem === 'US' ? 'mi' : 'km';
+  const toDisplay = (km: number) => (unitSystem === 'US' ? km / KM_PER_MILE : km).toFixed(1);
+
+  const stations = [...routeStations, ...manualStations].sort((a, b) => a.distance - b.distance);
+  const parsedDistance = parseFloat(distance);
+  const canAdd = Number.isFinite(parsedDistance) && parsedDistance > 0;
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    const distanceKm = unitSystem === 'US' ? parsedDistance * KM_PER_MILE : parsedDistance;
+
+    onManualStationsChange([
+      ...manualStations,
+      {
+        id: `manual-${Date.now()}`,
+        name: GPXValidator.sanitizeText(name).substring(0, 60) || AID_STATION_LABELS[type],
+        type,
+        distance: Math.round(distanceKm * 10) / 10,
+        source: 'manual'
+      }
+    ]);
+    setName('');
+    setDistance('');
+  };
+
+  return (
+    <div className="mt-3 p-3 bg-purple-600/30 rounded-lg text-sm text-purple-100">
+      <div className="font-medium text-purple-200 mb-2 flex items-center gap-2">
+        <Coffee className="w-4 h-4" />
+        Aid Stations & Refill Points
+      </div>
+
+      {stations.length > 0 ? (
+        <ul className="space-y-1 mb-3">
+          {stations.map(station => (
+            <li key={station.id} className="flex items-center justify-between">
+              <span>
+                <span className="text-white">{toDisplay(station.distance)} {unit}</span> · {station.name}
+                <span className="text-purple-300 text-xs"> ({AID_STATION_LABELS[station.type]}{station.source === 'gpx' ? ', from GPX' : ''})</span>
+              </span>
+              {station.source === 'manual' && (
+                <button
+                  onClick={() => onManualStationsChange(manualStations.filter(stop => stop.id !== station.id))}
+                  className="p-1 text-red-300 hover:text-red-100"
+                  title="Remove stop"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-purple-200 mb-3">
+          No stops yet - the plan assumes you carry everything from the start
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          className="p-2 rounded-lg bg-white/20 border border-white/30 text-white placeholder-white/50"
+          placeholder="Name (optional)"
+          maxLength={60}
+        />
+        <input
+          type="number"
+          value={distance}
+          onChange={(e) => setDistance(e.target.value)}
+          className="p-2 rounded-lg bg-white/20 border border-white/30 text-white placeholder-white/50"
+          placeholder={`Distance (${unit})`}
+          min="0"
+          step="0.1"
+        />
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value as AidStationType)}
+          className="p-2 rounded-lg bg-white/20 border border-white/30 text-white"
+        >
+          {(Object.keys(AID_STATION_LABELS) as AidStationType[]).map(option => (
+            <option key={option} value={option}>{AID_STATION_LABELS[option]}</option>
+          ))}
+        </select>
+        <button
+          onClick={handleAdd}
+          disabled={!canAdd}
+          className="flex items-center justify-center gap-2 px-3 py-2 bg-purple-600 hover:bg-purple-700 disabled:bg-gray-600 rounded-lg font-medium transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add Stop
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import { Mountain } from 'lucide-react';
+import type { ClimbPlan, UnitSystem } from '../utils/fuelingEngine';
+import { CLIMB_CATEGORY_LABELS, type ClimbCategory } from '../utils/routeAnalysis';
+
+interface ClimbTableProps {
+  climbs: ClimbPlan[];
+  unitSystem: UnitSystem;
+}
+
+const CATEGORY_COLORS: Record<ClimbCategory, string> = {
+  HC: 'bg-red-600',
+  '1': 'bg-red-500',
+  '2': 'bg-orange-500',
+  '3': 'bg-amber-500',
+  '4': 'bg-yellow-600'
+};
+
+export default function ClimbTable({ climbs, unitSystem }: ClimbTableProps) {
+  if (climbs.length === 0) return null;
+
+  const formatDistance = (km: number) => unitSystem === 'US'
+    ? `${(km * 0.621371).toFixed(1)} mi`
+    : `${km.toFixed(1)} km`;
+  const formatGain = (meters: number) => unitSystem === 'US'
+    ? `+${Math.round(meters * 3.28084)} ft`
+    : `+${Math.round(meters)} m`;
+
+  return (
+    <div className="mt-3">
+      <div className="text-xs font-medium text-purple-200 mb-1 flex items-center gap-1">
+        <Mountain className="w-3 h-3" />
+        Climbs
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs text-left">
+          <thead className="text-purple-200">
+            <tr>
+              <th className="py-1 pr-2 font-medium">Cat</th>
+              <th className="py-1 pr-2 font-medium">Starts</th>
+              <th className="py-1 pr-2 font-medium">Length</th>
+              <th className="py-1 pr-2 font-medium">Gain</th>
+              <th className="py-1 pr-2 font-medium">Avg / Max</th>
+              <th className="py-1 pr-2 font-medium">Time</th>
+              <th className="py-1 font-medium">Fueling</th>
+            </tr>
+          </thead>
+          <tbody>
+            {climbs.map(({ climb, minutes, note }) => (
+              <tr key={climb.startDistance} className="border-t border-white/10 align-top">
+                <td className="py-1 pr-2">
+                  {climb.category ? (
+                    <span className={`px-1.5 rounded text-white ${CATEGORY_COLORS[climb.category]}`}>
+                      {CLIMB_CATEGORY_LABELS[climb.category]}
+                    </span>
+                  ) : (
+                    <span className="text-purple-300">–</span>
+                  )}
+                </td>
+                <td className="py-1 pr-2 whitespace-nowrap">{formatDistance(climb.startDistance)}</td>
+                <td className="py-1 pr-2 whitespace-nowrap">{formatDistance(climb.length)}</td>
+                <td className="py-1 pr-2 whitespace-nowrap">{formatGain(climb.elevationGain)}</td>
+                <td className="py-1 pr-2 whitespace-nowrap">{climb.grade.toFixed(1)}% / {Math.round(climb.maxGrade)}%</td>
+                <td className="py-1 pr-2 whitespace-nowrap">~{minutes} min</td>
+                <td className="py-1 text-purple-100">{note}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
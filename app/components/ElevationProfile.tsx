@@ -0,0 +1,158 @@
+'use client';
+
+import { useMemo, useState, type MouseEvent } from 'react';
+import { Mountain } from 'lucide-react';
+import type { AidStation, FuelAlert, UnitSystem } from '../utils/fuelingEngine';
+import type { RouteData } from '../utils/routeAnalysis';
+import type { PacingPoint } from '../utils/speedModel';
+import { buildElevationProfile, MARKER_COLORS, type ProfileMarker } from '../utils/elevationProfile';
+
+interface ElevationProfileProps {
+  route: RouteData;
+  alerts: FuelAlert[];
+  aidStations: AidStation[];
+  pacing?: PacingPoint[];
+  durationMinutes: number;
+  unitSystem: UnitSystem;
+}
+
+const LEGEND: Array<{ kind: ProfileMarker['kind']; label: string }> = [
+  { kind: 'carbs', label: 'Carbs' },
+  { kind: 'electrolytes', label: 'Electrolytes' },
+  { kind: 'fluid', label: 'Fluid' },
+  { kind: 'restock', label: 'Restock' },
+  { kind: 'station', label: 'Aid station' }
+];
+
+export default function ElevationProfile({
+  route,
+  alerts,
+  aidStations,
+  pacing,
+  durationMinutes,
+  unitSystem
+}: ElevationProfileProps) {
+  const [tooltip, setTooltip] = useState<{ x: number; y: number; text: string } | null>(null);
+  const geometry = useMemo(
+    () => buildElevationProfile({ route, alerts, aidStations, pacing, durationMinutes, unitSystem }),
+    [route, alerts, aidStations, pacing, durationMinutes, unitSystem]
+  );
+  const { plot } = geometry;
+
+  const formatDistance = (km: number) => unitSystem === 'US'
+    ? `${(km * 0.621371).toFixed(1)} mi`
+    : `${km.toFixed(1)} km`;
+  const formatElevation = (meters: number) => unitSystem === 'US'
+    ? `${Math.round(meters * 3.28084)} ft`
+    : `${Math.round(meters)} m`;
+
+  // Readout of distance and elevation under the pointer when no marker is hovered
+  const handleMouseMove = (e: MouseEvent<SVGSVGElement>) => {
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - bounds.left) / bounds.width) * geometry.width;
+    if (x < plot.left || x > plot.right) {
+      setTooltip(null);
+      return;
+    }
+    const distance = geometry.xToDistance(x);
+    setTooltip({ x, y: plot.top, text: `${formatDistance(distance)} · ${formatElevation(geometry.elevationAt(distance))}` });
+  };
+
+  const showMarker = (marker: ProfileMarker) => (e: MouseEvent) => {
+    e.stopPropagation();
+    setTooltip({ x: marker.x, y: marker.y, text: marker.label });
+  };
+
+  return (
+    <div className="mt-3">
+      <div className="flex items-center justify-between mb-1">
+        <div className="text-xs font-medium text-purple-200 flex items-center gap-1">
+          <Mountain className="w-3 h-3" />
+          Elevation Profile
+        </div>
+        <div className="flex gap-3 text-[10px] text-purple-200">
+          {LEGEND.map(item => (
+            <span key={item.kind} className="flex items-center gap-1">
+              <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: MARKER_COLORS[item.kind] }} />
+              {item.label}
+            </span>
+          ))}
+        </div>
+      </div>
+      <div className="relative">
+        <svg
+          viewBox={`0 0 ${geometry.width} ${geometry.height}`}
+          className="w-full h-auto"
+          role="img"
+          aria-label="Elevation profile with fuel stops"
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => setTooltip(null)}
+        >
+          {geometry.elevationTicks.map(tick => (
+            <g key={tick.label}>
+              <line x1={plot.left} x2={plot.right} y1={tick.y} y2={tick.y} className="stroke-white/10" />
+              <text x={plot.left - 4} y={tick.y + 3} textAnchor="end" className="fill-purple-200 text-[9px]">{tick.label}</text>
+            </g>
+          ))}
+
+          {geometry.climbs.map(climb => (
+            <g key={climb.x}>
+              <rect x={climb.x} y={plot.top} width={climb.width} height={plot.bottom - plot.top} className="fill-amber-400/20" />
+              {climb.label && (
+                <text x={climb.x + climb.width / 2} y={plot.top - 4} textAnchor="middle" className="fill-amber-300 text-[9px] font-bold">
+                  {climb.label}
+                </text>
+              )}
+            </g>
+          ))}
+
+          <path d={geometry.areaPath} className="fill-purple-400/30" />
+          <path d={geometry.linePath} fill="none" className="stroke-purple-200" strokeWidth={1.5} />
+
+          {geometry.distanceTicks.map(tick => (
+            <text key={tick.x} x={tick.x} y={geometry.height - 8} textAnchor="middle" className="fill-purple-200 text-[9px]">
+              {tick.label}
+            </text>
+          ))}
+
+          {geometry.stations.map(station => (
+            <g key={`${station.distance}-${station.label}`} onMouseMove={showMarker(station)} className="cursor-pointer">
+              <line x1={station.x} x2={station.x} y1={plot.top} y2={plot.bottom} stroke={MARKER_COLORS.station} strokeDasharray="3 3" />
+              <path d={`M${station.x},${plot.top} l-5,-9 h10 z`} fill={MARKER_COLORS.station} />
+            </g>
+          ))}
+
+          {geometry.alerts.map((alert, index) => (
+            <circle
+              key={index}
+              cx={alert.x}
+              cy={alert.y}
+              r={alert.critical ? 4 : 3}
+              fill={MARKER_COLORS[alert.kind]}
+              stroke={alert.critical ? '#F87171' : 'white'}
+              strokeWidth={alert.critical ? 1.5 : 0.5}
+              className="cursor-pointer"
+              onMouseMove={showMarker(alert)}
+            />
+          ))}
+
+          {tooltip && (
+            <line x1={tooltip.x} x2={tooltip.x} y1={plot.top} y2={plot.bottom} className="stroke-white/40 pointer-events-none" />
+          )}
+        </svg>
+
+        {tooltip && (
+          <div
+            className="absolute pointer-events-none bg-gray-900/90 text-white text-xs rounded px-2 py-1 whitespace-nowrap -translate-x-1/2 -translate-y-full"
+            style={{
+              left: `${Math.min(85, Math.max(15, (tooltip.x / geometry.width) * 100))}%`,
+              top: `${(tooltip.y / geometry.height) * 100}%`
+            }}
+          >
+            {tooltip.text}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import { Battery } from 'lucide-react';
+import type { GlycogenProjection, PreRideMeal } from '../utils/glycogenModel';
+
+interface GlycogenChartProps {
+  projection: GlycogenProjection;
+  preRideMeal: PreRideMeal;
+  onPreRideMealChange: (meal: PreRideMeal) => void;
+}
+
+const MEAL_OPTIONS: Array<{ value: PreRideMeal; label: string }> = [
+  { value: 'fasted', label: 'Fasted' },
+  { value: 'normal', label: 'Carb breakfast' },
+  { value: 'carb-loaded', label: 'Carb-loaded' }
+];
+
+const WIDTH = 600;
+const HEIGHT = 180;
+const PADDING = { top: 10, right: 10, bottom: 24, left: 40 };
+
+export default function GlycogenChart({ projection, preRideMeal, onPreRideMealChange }: GlycogenChartProps) {
+  const { points, startStores, threshold, bonkRiskTime } = projection;
+  const duration = points[points.length - 1]?.time || 1;
+  const maxStores = Math.max(startStores, ...points.map(point => point.stores));
+
+  const x = (time: number) => PADDING.left + (time / duration) * (WIDTH - PADDING.left - PADDING.right);
+  const y = (stores: number) => PADDING.top + (1 - stores / maxStores) * (HEIGHT - PADDING.top - PADDING.bottom);
+
+  const line = points.map(point => `${x(point.time).toFixed(1)},${y(point.stores).toFixed(1)}`).join(' ');
+  const hourTicks = Array.from({ length: Math.floor(duration / 60) + 1 }, (_, hour) => hour * 60);
+
+  return (
+    <section className="bg-white/10 rounded-xl p-6 backdrop-blur-sm" aria-label="Glycogen Stores">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xl font-semibold flex items-center gap-2">
+          <Battery className="w-5 h-5 text-green-400" />
+          Estimated Glycogen Stores
+        </h3>
+        <select
+          value={preRideMeal}
+          onChange={(e) => onPreRideMealChange(e.target.value as PreRideMeal)}
+          className="p-1 rounded bg-white/20 border border-white/30 text-white text-sm"
+          aria-label="Pre-ride meal"
+        >
+          {MEAL_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Glycogen stores over the ride">
+        {/* Bonk-risk zone */}
+        <rect
+          x={PADDING.left}
+          y={y(threshold)}
+          width={WIDTH - PADDING.left - PADDING.right}
+          height={y(0) - y(threshold)}
+          className="fill-red-500/20"
+        />
+        <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(threshold)} y2={y(threshold)} className="stroke-red-400" strokeDasharray="4 4" />
+
+        {hourTicks.map(time => (
+          <g key={time}>
+            <line x1={x(time)} x2={x(time)} y1={PADDING.top} y2={HEIGHT - PADDING.bottom} className="stroke-white/10" />
+            <text x={x(time)} y={HEIGHT - 6} textAnchor="middle" className="fill-blue-200 text-[10px]">{time / 60}h</text>
+          </g>
+        ))}
+        <text x={PADDING.left - 6} y={y(maxStores) + 4} textAnchor="end" className="fill-blue-200 text-[10px]">{maxStores}g</text>
+        <text x={PADDING.left - 6} y={y(threshold) + 4} textAnchor="end" className="fill-red-300 text-[10px]">{threshold}g</text>
+
+        <polyline points={line} fill="none" className="stroke-green-400" strokeWidth={2} />
+
+        {bonkRiskTime !== null && (
+          <g>
+            <line x1={x(bonkRiskTime)} x2={x(bonkRiskTime)} y1={PADDING.top} y2={HEIGHT - PADDING.bottom} className="stroke-red-400" strokeWidth={2} />
+            <circle cx={x(bonkRiskTime)} cy={y(threshold)} r={4} className="fill-red-400" />
+          </g>
+        )}
+      </svg>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm mt-3">
+        <div>Start: <span className="font-medium text-white">{startStores}g</span></div>
+        <div>Burn: <span className="font-medium text-white">{projection.burnRate}g/hour</span></div>
+        <div>Absorbed: <span className="font-medium text-white">{projection.absorbed}g</span></div>
+        <div>Finish: <span className="font-medium text-white">{projection.finishStores}g</span></div>
+      </div>
+      <p className={`text-sm mt-2 ${bonkRiskTime !== null ? 'text-red-300' : 'text-green-300'}`}>
+        {bonkRiskTime !== null ? '⚠ ' : ''}{projection.summary}
+      </p>
+    </section>
+  );
+}
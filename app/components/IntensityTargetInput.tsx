@@ -0,0 +1,92 @@
+'use client';
+
+import { Activity } from 'lucide-react';
+import { POWER_ZONES, type IntensityTarget, type RideEffort } from '../utils/intensityModel';
+
+interface IntensityTargetInputProps {
+  target: IntensityTarget | null;
+  onTargetChange: (target: IntensityTarget | null) => void;
+  effort: RideEffort | null;
+}
+
+type TargetKind = IntensityTarget['kind'] | 'none';
+
+const DEFAULT_TARGETS: Record<IntensityTarget['kind'], IntensityTarget> = {
+  power: { kind: 'power', watts: 180 },
+  zone: { kind: 'zone', zone: 2 },
+  heartRate: { kind: 'heartRate', bpm: 140 }
+};
+
+export default function IntensityTargetInput({ target, onTargetChange, effort }: IntensityTargetInputProps) {
+  const kind: TargetKind = target ? target.kind : 'none';
+
+  const handleKindChange = (next: TargetKind) => {
+    onTargetChange(next === 'none' ? null : DEFAULT_TARGETS[next]);
+  };
+
+  return (
+    <div className="mb-4">
+      <label className="block text-sm font-medium mb-2 flex items-center gap-2">
+        <Activity className="w-4 h-4 text-blue-300" />
+        Power / Heart Rate Target (Optional)
+      </label>
+      <div className="flex gap-2">
+        <select
+          value={kind}
+          onChange={(e) => handleKindChange(e.target.value as TargetKind)}
+          className="flex-1 p-2 rounded-lg bg-white/20 border border-white/30 text-white text-sm"
+          aria-label="Intensity target type"
+        >
+          <option value="none">Use intensity above</option>
+          <option value="power">Average power</option>
+          <option value="zone">Power zone</option>
+          <option value="heartRate">Average heart rate</option>
+        </select>
+
+        {target?.kind === 'power' && (
+          <input
+            type="number"
+            value={target.watts}
+            onChange={(e) => onTargetChange({ kind: 'power', watts: Math.max(0, Number(e.target.value)) })}
+            className="w-28 p-2 rounded-lg bg-white/20 border border-white/30 text-white text-sm"
+            min="50"
+            max="600"
+            aria-label="Target average power in watts"
+          />
+        )}
+        {target?.kind === 'heartRate' && (
+          <input
+            type="number"
+            value={target.bpm}
+            onChange={(e) => onTargetChange({ kind: 'heartRate', bpm: Math.max(0, Number(e.target.value)) })}
+            className="w-28 p-2 rounded-lg bg-white/20 border border-white/30 text-white text-sm"
+            min="60"
+            max="220"
+            aria-label="Target average heart rate in bpm"
+          />
+        )}
+        {target?.kind === 'zone' && (
+          <select
+            value={target.zone}
+            onChange={(e) => onTargetChange({ kind: 'zone', zone: Number(e.target.value) })}
+            className="flex-1 p-2 rounded-lg bg-white/20 border border-white/30 text-white text-sm"
+            aria-label="Target power zone"
+          >
+            {POWER_ZONES.map(zone => (
+              <option key={zone.zone} value={zone.zone}>{zone.label}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {effort && (
+        <p className="text-xs text-blue-200 mt-2">
+          {effort.description}
+          {effort.estimatedFtp && (
+            <span className="block text-amber-300">Add your FTP in the nutrition profile for an exact estimate</span>
+          )}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { PackingListStorage, type PackingItem } from '../utils/packingList';
+
+interface PackingListProps {
+  items: PackingItem[];
+}
+
+const CATEGORY_LABELS: Record<PackingItem['category'], string> = {
+  prep: 'Before the ride',
+  hydration: 'Bottles',
+  fuel: 'Fuel',
+  electrolytes: 'Electrolytes',
+  spare: 'Spares'
+};
+
+export default function PackingList({ items }: PackingListProps) {
+  const [checked, setChecked] = useState<Set<string>>(new Set());
+
+  // Restore checkmarks saved before a reload
+  useEffect(() => {
+    setChecked(new Set(PackingListStorage.getChecked()));
+  }, []);
+
+  const toggle = (id: string) => {
+    setChecked(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      PackingListStorage.setChecked(Array.from(next));
+      return next;
+    });
+  };
+
+  const packedCount = items.filter(item => checked.has(item.id)).length;
+  const categories = (Object.keys(CATEGORY_LABELS) as PackingItem['category'][])
+    .filter(category => items.some(item => item.category === category));
+
+  return (
+    <section className="bg-green-500/20 rounded-xl p-6 border border-green-500/30" aria-label="Pre-Ride Checklist">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold text-green-300">Pre-Ride Packing List</h3>
+        <span className="text-sm text-green-200">{packedCount}/{items.length} packed</span>
+      </div>
+      <div className="space-y-4">
+        {categories.map(category => (
+          <div key={category}>
+            <div className="text-xs uppercase tracking-wide text-green-200 mb-2">{CATEGORY_LABELS[category]}</div>
+            <div className="space-y-2">
+              {items.filter(item => item.category === category).map(item => (
+                <label key={item.id} className="flex items-start gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    className="w-5 h-5 mt-0.5"
+                    checked={checked.has(item.id)}
+                    onChange={() => toggle(item.id)}
+                  />
+                  <span className={checked.has(item.id) ? 'line-through text-green-200/70' : ''}>
+                    {item.label}
+                    {item.detail && (
+                      <span className="block text-xs text-green-200">{item.detail}</span>
+                    )}
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,215 @@
+'use client';
+
+import { useState } from 'react';
+import { Package, Plus, Trash2 } from 'lucide-react';
+import { ProductCatalog, type NutritionProduct, type ProductCategory } from '../utils/productCatalog';
+
+interface ProductCatalogPanelProps {
+  products: NutritionProduct[];
+  onProductsChange: (products: NutritionProduct[]) => void;
+}
+
+const CATEGORY_OPTIONS: Array<{ value: ProductCategory; label: string; servingUnit: string }> = [
+  { value: 'gel', label: 'Gel', servingUnit: 'gel' },
+  { value: 'chew', label: 'Chew', servingUnit: 'chew' },
+  { value: 'bar', label: 'Bar', servingUnit: 'bar' },
+  { value: 'drink-mix', label: 'Drink mix', servingUnit: 'bottle' },
+  { value: 'real-food', label: 'Real food', servingUnit: 'serving' },
+  { value: 'electrolyte', label: 'Electrolyte', servingUnit: 'tab' }
+];
+
+const EMPTY_FORM = {
+  name: '',
+  category: 'gel' as ProductCategory,
+  carbs: 25,
+  fructoseRatio: '',
+  sodium: 0,
+  caffeine: 0,
+  volume: 0
+};
+
+export default function ProductCatalogPanel({ products, onProductsChange }: ProductCatalogPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [error, setError] = useState('');
+
+  const handleAdd = () => {
+    const category = CATEGORY_OPTIONS.find(option => option.value === form.category) || CATEGORY_OPTIONS[0];
+    const ratio = form.fructoseRatio.trim();
+
+    try {
+      ProductCatalog.addCustomProduct({
+        name: form.name,
+        category: form.category,
+        printLabel: form.name,
+        servingUnit: category.servingUnit,
+        servingStep: form.category === 'drink-mix' ? 0.25 : form.category === 'chew' ? 1 : 0.5,
+        carbs: Number(form.carbs) || 0,
+        fructoseRatio: ratio === '' ? null : Number(ratio),
+        sodium: Number(form.sodium) || 0,
+        caffeine: Number(form.caffeine) || 0,
+        volume: Number(form.volume) || 0
+      });
+      setForm(EMPTY_FORM);
+      setError('');
+      onProductsChange(ProductCatalog.getProducts());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save product');
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    ProductCatalog.removeCustomProduct(id);
+    onProductsChange(ProductCatalog.getProducts());
+  };
+
+  return (
+    <section className="bg-white/10 rounded-xl p-6 backdrop-blur-sm" aria-label="Fuel Products">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center justify-between"
+      >
+        <h3 className="text-xl font-semibold flex items-center gap-2">
+          <Package className="w-5 h-5 text-orange-400" />
+          Fuel Products
+        </h3>
+        <span className="text-sm text-blue-200">
+          {products.filter(product => product.custom).length} custom • {isOpen ? 'Hide' : 'Show'}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-blue-200">
+                  <th className="py-1 pr-3">Product</th>
+                  <th className="py-1 pr-3">Carbs</th>
+                  <th className="py-1 pr-3">Glu:Fru</th>
+                  <th className="py-1 pr-3">Sodium</th>
+                  <th className="py-1 pr-3">Caffeine</th>
+                  <th className="py-1 pr-3">Volume</th>
+                  <th className="py-1"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {products.map(product => (
+                  <tr key={product.id} className="border-t border-white/10">
+                    <td className="py-1 pr-3 capitalize">
+                      {product.name} <span className="text-blue-300 text-xs">/ {product.servingUnit}</span>
+                    </td>
+                    <td className="py-1 pr-3">{product.carbs}g</td>
+                    <td className="py-1 pr-3">{product.fructoseRatio === null ? '–' : `1:${product.fructoseRatio}`}</td>
+                    <td className="py-1 pr-3">{product.sodium}mg</td>
+                    <td className="py-1 pr-3">{product.caffeine > 0 ? `${product.caffeine}mg` : '–'}</td>
+                    <td className="py-1 pr-3">{product.volume > 0 ? `${product.volume}ml` : '–'}</td>
+                    <td className="py-1 text-right">
+                      {product.custom && (
+                        <button
+                          onClick={() => handleRemove(product.id)}
+                          className="p-1 text-red-300 hover:text-red-100"
+                          title="Remove custom product"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="bg-white/5 rounded-lg p-4">
+            <div className="text-sm font-medium mb-3">Add your own product (per serving)</div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                className="col-span-2 p-2 rounded-lg bg-white/20 border border-white/30 text-white placeholder-white/50"
+                placeholder="Product name"
+                maxLength={40}
+              />
+              <select
+                value={form.category}
+                onChange={(e) => setForm(prev => ({ ...prev, category: e.target.value as ProductCategory }))}
+                className="col-span-2 p-2 rounded-lg bg-white/20 border border-white/30 text-white"
+              >
+                {CATEGORY_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <label className="flex flex-col gap-1">
+                <span className="text-blue-200">Carbs (g)</span>
+                <input
+                  type="number"
+                  value={form.carbs}
+                  onChange={(e) => setForm(prev => ({ ...prev, carbs: Number(e.target.value) }))}
+                  className="p-2 rounded-lg bg-white/20 border border-white/30 text-white"
+                  min="0"
+                  max="200"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-blue-200">Fructose per 1 glucose</span>
+                <input
+                  type="text"
+                  value={form.fructoseRatio}
+                  onChange={(e) => setForm(prev => ({ ...prev, fructoseRatio: e.target.value }))}
+                  className="p-2 rounded-lg bg-white/20 border border-white/30 text-white placeholder-white/50"
+                  placeholder="e.g. 0.8"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-blue-200">Sodium (mg)</span>
+                <input
+                  type="number"
+                  value={form.sodium}
+                  onChange={(e) => setForm(prev => ({ ...prev, sodium: Number(e.target.value) }))}
+                  className="p-2 rounded-lg bg-white/20 border border-white/30 text-white"
+                  min="0"
+                  max="2000"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-blue-200">Caffeine (mg)</span>
+                <input
+                  type="number"
+                  value={form.caffeine}
+                  onChange={(e) => setForm(prev => ({ ...prev, caffeine: Number(e.target.value) }))}
+                  className="p-2 rounded-lg bg-white/20 border border-white/30 text-white"
+                  min="0"
+                  max="400"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-blue-200">Volume (ml)</span>
+                <input
+                  type="number"
+                  value={form.volume}
+                  onChange={(e) => setForm(prev => ({ ...prev, volume: Number(e.target.value) }))}
+                  className="p-2 rounded-lg bg-white/20 border border-white/30 text-white"
+                  min="0"
+                  max="1000"
+                />
+              </label>
+            </div>
+            {error && (
+              <p className="text-red-300 text-sm mt-2">{error}</p>
+            )}
+            <button
+              onClick={handleAdd}
+              disabled={form.name.trim().length === 0}
+              className="mt-3 flex items-center gap-2 px-4 py-2 bg-orange-600 hover:bg-orange-700 disabled:bg-gray-600 rounded-lg text-sm font-medium transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              Add Product
+            </button>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
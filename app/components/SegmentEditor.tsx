@@ -0,0 +1,94 @@
+'use client';
+
+import { Plus, Trash2 } from 'lucide-react';
+import type { RideIntensity, RideSegment, SegmentPlan } from '../utils/fuelingEngine';
+
+interface SegmentEditorProps {
+  segments: RideSegment[];
+  onSegmentsChange: (segments: RideSegment[]) => void;
+  plans: SegmentPlan[]; // per-segment rates from the fuel plan
+  totalMinutes: number;
+}
+
+export const DEFAULT_SEGMENTS: RideSegment[] = [
+  { label: 'Warm-up', durationMinutes: 45, intensity: 'casual' },
+  { label: 'Intervals', durationMinutes: 60, intensity: 'hard' },
+  { label: 'Cool-down', durationMinutes: 30, intensity: 'casual' }
+];
+
+const INTENSITY_OPTIONS: Array<{ value: RideIntensity; label: string }> = [
+  { value: 'casual', label: 'Easy (Z1/2)' },
+  { value: 'moderate', label: 'Tempo (Z3)' },
+  { value: 'hard', label: 'Hard (Z4-5)' }
+];
+
+export default function SegmentEditor({ segments, onSegmentsChange, plans, totalMinutes }: SegmentEditorProps) {
+  const plannedMinutes = segments.reduce((sum, segment) => sum + segment.durationMinutes, 0);
+
+  const updateSegment = (index: number, changes: Partial<RideSegment>) => {
+    onSegmentsChange(segments.map((segment, i) => i === index ? { ...segment, ...changes } : segment));
+  };
+
+  return (
+    <div className="bg-white/5 rounded-lg p-3 mb-4 text-sm">
+      <div className="font-medium mb-2">Ride Segments</div>
+      <div className="space-y-2">
+        {segments.map((segment, index) => {
+          const plan = plans[index];
+          return (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="text"
+                value={segment.label}
+                onChange={(e) => updateSegment(index, { label: e.target.value.substring(0, 30) })}
+                className="flex-1 min-w-0 p-1 rounded bg-white/20 border border-white/30 text-white"
+                aria-label="Segment name"
+              />
+              <input
+                type="number"
+                value={segment.durationMinutes}
+                onChange={(e) => updateSegment(index, { durationMinutes: Math.max(0, Number(e.target.value)) })}
+                className="w-16 p-1 rounded bg-white/20 border border-white/30 text-white"
+                min="5"
+                max="600"
+                aria-label="Segment minutes"
+              />
+              <span className="text-blue-200">min</span>
+              <select
+                value={segment.intensity}
+                onChange={(e) => updateSegment(index, { intensity: e.target.value as RideIntensity })}
+                className="p-1 rounded bg-white/20 border border-white/30 text-white"
+                aria-label="Segment intensity"
+              >
+                {INTENSITY_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <span className="w-14 text-right text-blue-200">{plan ? `${plan.carbRate}g/h` : '–'}</span>
+              <button
+                onClick={() => onSegmentsChange(segments.filter((_, i) => i !== index))}
+                disabled={segments.length <= 1}
+                className="p-1 text-red-300 hover:text-red-100 disabled:text-gray-500"
+                title="Remove segment"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+      <div className="flex items-center justify-between mt-2">
+        <button
+          onClick={() => onSegmentsChange([...segments, { label: `Segment ${segments.length + 1}`, durationMinutes: 30, intensity: 'moderate' }])}
+          className="flex items-center gap-1 text-blue-300 hover:text-blue-100"
+        >
+          <Plus className="w-4 h-4" />
+          Add segment
+        </button>
+        <span className={`text-xs ${plannedMinutes === totalMinutes ? 'text-blue-200' : 'text-amber-300'}`}>
+          {plannedMinutes} of {totalMinutes} min planned{plannedMinutes !== totalMinutes && ' - last segment adjusts to fit'}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -1,45 +1,48 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { Clock, Plus, Zap, Droplets, Timer, AlertTriangle, RotateCcw, Upload, MapPin } from 'lucide-react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Clock, Plus, Zap, Droplets, GlassWater, Timer, AlertTriangle, RotateCcw, Upload, MapPin, Download } from 'lucide-react';
 import Script from 'next/script';
 import Footer from './components/Footer';
 import FeatureFlagDebugPanel from './components/FeatureFlagDebugPanel';
+import ProductCatalogPanel from './components/ProductCatalogPanel';
+import PackingList from './components/PackingList';
+import AidStationEditor from './components/AidStationEditor';
+import GlycogenChart from './components/GlycogenChart';
+import IntensityTargetInput from './components/IntensityTargetInput';
+import SegmentEditor, { DEFAULT_SEGMENTS } from './components/SegmentEditor';
+import ClimbTable from './components/ClimbTable';
+import ElevationProfile from './components/ElevationProfile';
 import { analytics } from './utils/analytics';
 import { useFeatureFlag, trackVariantExposure } from './utils/flags';
 import { SecureStorage } from './utils/encryption';
-import { GPXValidator } from './utils/gpxValidator';
-
-interface FuelAlert {
-  time: number; // minutes
-  type: 'carbs' | 'electrolytes';
-  amount: string;
-  priority: 'normal' | 'critical';
-}
-
-interface NutritionProfile {
-  weight: number;
-  sweatRate: 'light' | 'moderate' | 'heavy';
-  intensity: 'easy' | 'moderate' | 'hard' | 'mixed';
-  giSensitivity: 'sensitive' | 'normal' | 'tolerant';
-  previousIssues: string[];
-  preferredFuels: string[];
-  experienceLevel: 'beginner' | 'intermediate' | 'advanced';
-  name: string;
-}
-
-interface RouteData {
-  name: string;
-  distance: number; // in kilometers
-  elevationGain: number; // in meters
-  estimatedTime: number; // in minutes
-  climbs: Array<{
-    startDistance: number;
-    endDistance: number;
-    elevationGain: number;
-    grade: number;
-  }>;
-}
+import {
+  ACCEPTED_EXTENSIONS,
+  validateRouteFile,
+  type RouteParseOptions,
+  type RouteParseProgress,
+  type RouteTrackSummary
+} from './utils/importers';
+import { parseRouteFile } from './utils/importers/routeWorkerClient';
+import {
+  getBodyMass,
+  planFueling,
+  PROFILE_INTENSITY,
+  type FuelAlert,
+  type NutritionProfile,
+  type RideSegment,
+  type RouteData
+} from './utils/fuelingEngine';
+import { CLIMB_CATEGORY_LABELS, type AidStation } from './utils/routeAnalysis';
+import { BUILT_IN_PRODUCTS, ProductCatalog, type NutritionProduct } from './utils/productCatalog';
+import { buildPackingList, PackingListStorage } from './utils/packingList';
+import type { PreRideMeal } from './utils/glycogenModel';
+import { estimateRidePower, type IntensityTarget } from './utils/intensityModel';
+import { DEFAULT_BIKE_MASS, estimateRouteTime } from './utils/speedModel';
+import { buildElevationProfile, renderElevationProfileSvg } from './utils/elevationProfile';
+import { exportCourseGPX, exportCourseTCX } from './utils/courseExport';
+
+const KM_PER_MILE = 1.609344;
 
 export default function CyclingNutritionApp() {
   // Feature flags for A/B testing
@@ -50,11 +53,11 @@ export default function CyclingNutritionApp() {
   const [rideMiles, setRideMiles] = useState<number>(20); // miles
   const [rideKilometers, setRideKilometers] = useState<number>(32); // kilometers
   const [rideType, setRideType] = useState<'time' | 'miles' | 'kilometers'>('time');
-  const [rideIntensity, setRideIntensity] = useState<'casual' | 'moderate' | 'hard'>('casual');
+  const [rideIntensity, setRideIntensity] = useState<'casual' | 'moderate' | 'hard' | 'mixed'>('casual');
+  const [segments, setSegments] = useState<RideSegment[]>(DEFAULT_SEGMENTS);
   const [isRiding, setIsRiding] = useState(false);
   const [elapsedTime, setElapsedTime] = useState<number>(0);
-  const [fuelSchedule, setFuelSchedule] = useState<FuelAlert[]>([]);
-  const [completedAlerts, setCompletedAlerts] = useState<Set<number>>(new Set());
+  const [completedAlerts, setCompletedAlerts] = useState<Set<string>>(new Set());
   const [currentTemp, setCurrentTemp] = useState<number>(75); // Fahrenheit
   const [currentHumidity, setCurrentHumidity] = useState<number>(50); // Percentage
   const [windSpeed, setWindSpeed] = useState<number>(0); // mph
@@ -72,7 +75,24 @@ export default function CyclingNutritionApp() {
   const [routeData, setRouteData] = useState<RouteData | null>(null);
   const [isParsingGPX, setIsParsingGPX] = useState<boolean>(false);
   const [gpxError, setGpxError] = useState<string>('');
+  const [gpxWarnings, setGpxWarnings] = useState<string[]>([]);
+  const [parseProgress, setParseProgress] = useState<RouteParseProgress | null>(null);
+  const cancelParseRef = useRef<(() => void) | null>(null);
+  // Kept so another track from the same file can be picked without uploading it again
+  const routeFileRef = useRef<{ file: File; repair: boolean } | null>(null);
+  // A file rejected for bad points, which can be retried with them dropped
+  const [repairableFile, setRepairableFile] = useState<File | null>(null);
+  const [routeTracks, setRouteTracks] = useState<RouteTrackSummary[]>([]);
+  const [routeTrackIndex, setRouteTrackIndex] = useState<number>(0);
   const [locationName, setLocationName] = useState<string>('');
+  const [products, setProducts] = useState<NutritionProduct[]>(BUILT_IN_PRODUCTS);
+  const [bottleCount, setBottleCount] = useState<number>(2);
+  const [bottleCapacity, setBottleCapacity] = useState<number>(750); // ml
+  const [manualStations, setManualStations] = useState<AidStation[]>([]);
+  const [preRideMeal, setPreRideMeal] = useState<PreRideMeal>('normal');
+  const [intensityTarget, setIntensityTarget] = useState<IntensityTarget | null>(null);
+  const [bikeMass, setBikeMass] = useState<number>(DEFAULT_BIKE_MASS); // kg, bike + kit
+  const [useRecordedPace, setUseRecordedPace] = useState<boolean>(false);
 
   // Convert miles to estimated time (assuming 14mph average)
   const milesToTime = (miles: number) => {
@@ -98,174 +118,34 @@ export default function CyclingNutritionApp() {
   const getSpeedUnit = () => unitSystem === 'UK' ? 'km/h' : 'mph';
   const getDistanceUnit = () => unitSystem === 'UK' ? 'km' : 'miles';
 
-  // Distance calculation utility (Haversine formula)
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number) => {
-    const R = 6371; // Earth's radius in kilometers
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const a = Math.sin(dLat/2) * Math.sin(dLat/2) +
-              Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
-              Math.sin(dLon/2) * Math.sin(dLon/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    return R * c;
-  };
-
-  // Validate GPX file
-  // Secure GPX file validation using comprehensive security checks
-  const validateGPXFile = async (file: File): Promise<string | null> => {
-    // Basic file validation
-    const fileValidation = GPXValidator.validateFile(file);
-    if (!fileValidation.isValid) {
-      return fileValidation.error || 'Invalid file';
-    }
-
-    // Content validation for security threats
-    const contentValidation = await GPXValidator.validateContent(file);
-    if (!contentValidation.isValid) {
-      return contentValidation.error || 'Invalid file content';
-    }
-
-    // Log any warnings
-    if (contentValidation.warnings) {
-      console.warn('GPX validation warnings:', contentValidation.warnings);
-    }
-
-    return null;
-  };
-
 
-  // Parse GPX file and extract route data
-  const parseGPXFile = useCallback(async (file: File) => {
+  // Parse a GPX, TCX, FIT, KML or GeoJSON file and extract route data
+  const parseGPXFile = useCallback(async (file: File, options: RouteParseOptions = {}) => {
     setIsParsingGPX(true);
     setGpxError('');
+    setGpxWarnings([]);
+    setRepairableFile(null);
     
     try {
-      // Validate file first with comprehensive security checks
-      const validationError = await validateGPXFile(file);
-      if (validationError) {
-        throw new Error(validationError);
-      }
-
-      const text = await file.text();
-      
-      // Check for XML bombs and excessive content
-      if (text.length > 10 * 1024 * 1024) { // 10MB text limit
-        throw new Error('GPX file content too large');
+      // Parsed in a Web Worker, in one pass that also runs the GPX security checks and limits
+      const task = parseRouteFile(file, options, setParseProgress);
+      cancelParseRef.current = task.cancel;
+      const result = await task.result;
+      if (!result) return; // cancelled
+      if (!result.route) {
+        const { error, code, line } = result.validation;
+        setGpxError(`${error || 'Failed to parse route file'}${line ? ` (line ${line})` : ''}`);
+        if (code === 'BAD_COORDINATE' || code === 'BAD_ELEVATION') setRepairableFile(file);
+        return;
       }
 
-      const parser = new DOMParser();
-      const gpxDoc = parser.parseFromString(text, 'application/xml');
-      
-      // Check for parsing errors
-      if (gpxDoc.getElementsByTagName('parsererror').length > 0) {
-        throw new Error('Invalid GPX file format');
-      }
+      const route = result.route;
+      const totalDistance = route.distance;
+      setGpxWarnings(result.validation.warnings || []);
+      routeFileRef.current = { file, repair: options.repair ?? false };
+      setRouteTracks(result.tracks);
+      setRouteTrackIndex(result.trackIndex);
 
-      // Validate GPX structure
-      const gpxElement = gpxDoc.getElementsByTagName('gpx')[0];
-      if (!gpxElement) {
-        throw new Error('Invalid GPX file: missing GPX root element');
-      }
-      
-      // Extract track points
-      const trackPoints = Array.from(gpxDoc.getElementsByTagName('trkpt'));
-      
-      if (trackPoints.length === 0) {
-        throw new Error('No track points found in GPX file');
-      }
-      
-      let totalDistance = 0;
-      let totalElevationGain = 0;
-      let minElevation = Infinity;
-      let maxElevation = -Infinity;
-      const climbs: RouteData['climbs'] = [];
-      
-      let currentClimb: { startDistance: number; startElevation: number; elevationGain: number } | null = null;
-      let lastPoint: { lat: number; lon: number; ele: number; dist: number } | null = null;
-      
-      // Process each track point
-      for (let i = 0; i < trackPoints.length; i++) {
-        const point = trackPoints[i];
-        const lat = parseFloat(point.getAttribute('lat') || '0');
-        const lon = parseFloat(point.getAttribute('lon') || '0');
-        const eleElement = point.getElementsByTagName('ele')[0];
-        const elevation = eleElement ? parseFloat(eleElement.textContent || '0') : 0;
-        
-        if (lastPoint) {
-          // Calculate distance from last point
-          const segmentDistance = calculateDistance(lastPoint.lat, lastPoint.lon, lat, lon);
-          totalDistance += segmentDistance;
-          
-          // Calculate elevation change
-          const elevationChange = elevation - lastPoint.ele;
-          
-          // Track elevation gain
-          if (elevationChange > 0) {
-            totalElevationGain += elevationChange;
-          }
-          
-          // Detect climbs (sustained elevation gain)
-          if (elevationChange > 0.5 && segmentDistance > 0) { // Climbing
-            if (!currentClimb) {
-              currentClimb = {
-                startDistance: lastPoint.dist,
-                startElevation: lastPoint.ele,
-                elevationGain: 0
-              };
-            }
-            currentClimb.elevationGain += elevationChange;
-          } else if (currentClimb && (elevationChange < -0.5 || i === trackPoints.length - 1)) {
-            // End of climb
-            if (currentClimb.elevationGain > 30) { // Only count significant climbs
-              const climbDistance = totalDistance - currentClimb.startDistance;
-              const avgGrade = climbDistance > 0 ? (currentClimb.elevationGain / (climbDistance * 1000)) * 100 : 0;
-              
-              climbs.push({
-                startDistance: currentClimb.startDistance,
-                endDistance: totalDistance,
-                elevationGain: currentClimb.elevationGain,
-                grade: avgGrade
-              });
-            }
-            currentClimb = null;
-          }
-        }
-        
-        minElevation = Math.min(minElevation, elevation);
-        maxElevation = Math.max(maxElevation, elevation);
-        
-        lastPoint = { lat, lon, ele: elevation, dist: totalDistance };
-      }
-      
-      // Calculate flat time using the same ROUNDED distance that will be displayed
-      let flatTime: number;
-      if (unitSystem === 'US') {
-        // For US users: use the same rounded miles value that gets set in the distance box
-        const distanceInMiles = totalDistance * 0.621371;
-        const roundedMiles = Math.round(distanceInMiles * 10) / 10; // Same rounding as distance box
-        flatTime = Math.round((roundedMiles / 14) * 60); // Use rounded distance for consistency
-      } else {
-        // For UK users: use the same rounded km value that gets set in the distance box
-        const roundedKm = Math.round(totalDistance * 10) / 10; // Same rounding as distance box
-        flatTime = Math.round((roundedKm / 22.5) * 60); // Use rounded distance for consistency
-      }
-      
-      // Note: Elevation bonus is not added to displayed time to match distance box
-      // const elevationTimeBonus = (totalElevationGain / 100) * 6; // 6 minutes per 100m elevation
-      
-      // Extract and sanitize route name from GPX
-      const nameElement = gpxDoc.getElementsByTagName('name')[0];
-      const rawRouteName = nameElement ? nameElement.textContent || 'Uploaded Route' : 'Uploaded Route';
-      const routeName = GPXValidator.sanitizeText(rawRouteName); // Use secure sanitization
-      
-      const route: RouteData = {
-        name: routeName,
-        distance: totalDistance,
-        elevationGain: totalElevationGain,
-        estimatedTime: flatTime, // Use base time without elevation bonus to match distance box
-        climbs
-      };
-      
       setRouteData(route);
       
       // Auto-update route planning method based on user's unit system
@@ -283,19 +163,26 @@ export default function CyclingNutritionApp() {
       }
       
     } catch (error) {
-      setGpxError(error instanceof Error ? error.message : 'Failed to parse GPX file');
+      setGpxError(error instanceof Error ? error.message : 'Failed to parse route file');
     } finally {
+      cancelParseRef.current = null;
+      setParseProgress(null);
       setIsParsingGPX(false);
     }
   }, [unitSystem]);
 
-  // Handle GPX file upload with async validation
-  const handleGPXUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+  const cancelGPXParse = () => {
+    cancelParseRef.current?.();
+  };
+
+  // Handle route file upload, rejecting unsupported files before they are read
+  const handleGPXUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      const validationError = await validateGPXFile(file);
-      if (validationError) {
-        setGpxError(validationError);
+      const validation = validateRouteFile(file);
+      if (!validation.isValid) {
+        setGpxError(validation.error || 'Invalid route file');
+        setRepairableFile(null);
         // Clear the input
         event.target.value = '';
         return;
@@ -305,12 +192,43 @@ export default function CyclingNutritionApp() {
   };
 
 
+  // Elevation-aware riding time for an uploaded route, at the rider's planned power
+  const routeTime = useMemo(() => {
+    if (!routeData) return null;
+    const bodyMass = getBodyMass(nutritionProfile);
+    const power = estimateRidePower(
+      rideIntensity === 'mixed' ? 'moderate' : rideIntensity,
+      intensityTarget,
+      nutritionProfile,
+      bodyMass
+    );
+    return estimateRouteTime(routeData.track, {
+      power,
+      riderMass: bodyMass,
+      bikeMass,
+      wind: windSpeed > 0 ? { speed: windSpeed, direction: windDirection } : undefined
+    });
+  }, [routeData, nutritionProfile, rideIntensity, intensityTarget, bikeMass, windSpeed, windDirection]);
+
+  // Pacing the plan follows: the rider's own moving pace when replanning a recorded ride, otherwise the model's
+  const ridePace = useMemo(() => {
+    if (useRecordedPace && routeData?.recording) {
+      return { pacing: routeData.recording.pacing, averageSpeed: routeData.recording.movingSpeed };
+    }
+    return routeTime;
+  }, [useRecordedPace, routeData, routeTime]);
+
   // Get effective ride duration for scheduling
   const getEffectiveRideTime = useCallback(() => {
     if (rideType === 'time') return rideTime;
+    // With a route loaded, distance is covered at the route's modelled or recorded average speed
+    if (ridePace && ridePace.averageSpeed > 0) {
+      const km = rideType === 'miles' ? rideMiles * KM_PER_MILE : rideKilometers;
+      return Math.round((km / ridePace.averageSpeed) * 60);
+    }
     if (rideType === 'miles') return milesToTime(rideMiles);
     return kilometersToTime(rideKilometers);
-  }, [rideType, rideTime, rideMiles, rideKilometers]);
+  }, [rideType, rideTime, rideMiles, rideKilometers, ridePace]);
 
 
   // Secure localStorage operations using proper encryption
@@ -334,6 +252,10 @@ export default function CyclingNutritionApp() {
       const saved = await loadFromSecureStorage('nutritionProfile');
       if (saved) {
         setNutritionProfile(saved);
+        // Start from the rider's typical intensity
+        if (saved.intensity && PROFILE_INTENSITY[saved.intensity]) {
+          setRideIntensity(PROFILE_INTENSITY[saved.intensity]);
+        }
       }
 
       // Track page load and initial user state
@@ -347,6 +269,11 @@ export default function CyclingNutritionApp() {
     loadProfile();
   }, [loadFromSecureStorage]);
 
+  // Load custom fuel products on mount
+  useEffect(() => {
+    setProducts(ProductCatalog.getProducts());
+  }, []);
+
   // Debug panel keyboard shortcut (Ctrl+Shift+F) - disabled in production
   useEffect(() => {
     if (process.env.NODE_ENV === 'production') return;
@@ -394,59 +321,85 @@ export default function CyclingNutritionApp() {
     const hours = Math.floor(totalMinutes / 60);
     const minutes = totalMinutes % 60;
     const durationString = hours > 0 ? `${hours}h${minutes > 0 ? ` ${minutes}m` : ''}` : `${minutes}m`;
-    const totalFluidML = Math.round((totalMinutes / 60) * 600); // ~600ml per hour
-    const totalCarbsG = fuelSchedule.filter(a => a.type === 'carbs').length * 15; // ~15g per gel
+    const totalFluidML = fuelPlan.totals.fluid;
+    const totalCarbsG = fuelPlan.totals.carbs;
+    const packingSummary = fuelPlan.servings.map(serving => serving.label).join(', ');
 
     // Generate timeline rows based on fuel schedule
     let timelineRows = '';
+    const { bottles } = fuelPlan.hydration;
+
+    // Bottles drain one at a time, the electrolyte drink bottle first
+    const renderBottles = (remaining: number) => Array.from({ length: bottles.count }, (_, index) => {
+      const contents = Math.min(bottles.capacity, Math.max(0, remaining - (bottles.count - 1 - index) * bottles.capacity));
+      const level = Math.round((contents / bottles.capacity) * 10) * 10;
+      return `
+              <div class="bottle">
+                  <div class="bottle-liquid ${index === 0 ? 'sports-liquid' : 'water-liquid'} level-${level}"></div>
+              </div>`;
+    }).join('');
+
+    const formatPrintTime = (time: number) => time >= 60 ?
+      `${Math.floor(time/60)}h${time%60 > 0 ? (time%60).toString().padStart(2, '0') : ''}` :
+      `${time}'`;
     
     // Start row
     timelineRows += `
       <div class="timeline-row">
           <div class="time">0'</div>
           <div class="nutrition">
-              <div class="bottle">
-                  <div class="bottle-liquid sports-liquid level-100"></div>
-              </div>
-              <div class="bottle">
-                  <div class="bottle-liquid water-liquid level-100"></div>
-              </div>
+              ${renderBottles(fuelPlan.hydration.carried)}
               <span style="font-size: 10px; color: #666;">(start full)</span>
           </div>
       </div>
     `;
 
-    // Generate rows from fuel schedule with decreasing bottle levels
-    let currentHeedLevel = 100;
-    let currentWaterLevel = 100;
-    
+    // Generate rows from fuel schedule with tracked bottle levels
     fuelSchedule.forEach((alert) => {
-      if (alert.type === 'carbs') {
-        // Decrease bottle levels over time
-        const timeProgress = alert.time / getEffectiveRideTime();
-        currentHeedLevel = Math.max(10, Math.round((1 - timeProgress * 0.8) * 100));
-        currentWaterLevel = Math.max(10, Math.round((1 - timeProgress * 0.7) * 100));
-        
-        // Determine bottle level classes
-        const sportsClass = Math.round(currentHeedLevel / 10) * 10;
-        const waterClass = Math.round(currentWaterLevel / 10) * 10;
-        
-        // Format time
-        const timeStr = alert.time >= 60 ? 
-          `${Math.floor(alert.time/60)}h${alert.time%60 > 0 ? (alert.time%60).toString().padStart(2, '0') : ''}` : 
-          `${alert.time}'`;
+      const timeStr = alert.distance !== undefined
+        ? `${formatPrintTime(alert.time)}<div class="km">${formatAlertDistance(alert.distance).toUpperCase()}</div>`
+        : formatPrintTime(alert.time);
+      const remaining = alert.fluidRemaining ?? fuelPlan.hydration.carried;
+
+      // Aid station stops: refill or restock, labelled with where they happen
+      if (alert.station) {
+        const stop = unitSystem === 'US'
+          ? `MI ${Math.round(alert.station.distance * 0.621371)}`
+          : `KM ${Math.round(alert.station.distance)}`;
+        timelineRows += `
+          <div class="timeline-row refill-row">
+              <div class="time">${timeStr}</div>
+              <div class="nutrition">
+                  ${renderBottles(remaining)}
+                  <div class="refill">${alert.type === 'fluid' ? 'REFILL' : 'RESTOCK'}</div>
+                  <span class="stop">${stop} ${alert.station.name}</span>
+              </div>
+          </div>
+        `;
+        return;
+      }
 
+      if (alert.type === 'carbs') {
         timelineRows += `
           <div class="timeline-row">
               <div class="time">${timeStr}</div>
               <div class="nutrition">
-                  <div class="bottle">
-                      <div class="bottle-liquid sports-liquid level-${sportsClass}"></div>
-                  </div>
-                  <div class="bottle">
-                      <div class="bottle-liquid water-liquid level-${waterClass}"></div>
-                  </div>
-                  <div class="gel">½ GEL</div>
+                  ${renderBottles(remaining)}
+                  <div class="${alert.item?.product.category === 'chew' ? 'chews' : 'gel'}">${alert.item?.printLabel || '½ GEL'}</div>
+              </div>
+          </div>
+        `;
+      }
+
+      if (alert.type === 'fluid') {
+        timelineRows += `
+          <div class="timeline-row${alert.priority === 'critical' ? ' refill-row' : ''}">
+              <div class="time">${timeStr}</div>
+              <div class="nutrition">
+                  ${renderBottles(remaining)}
+                  ${alert.priority === 'critical'
+                    ? '<div class="refill">REFILL</div>'
+                    : `<div class="drink">${alert.fluid}ML</div>`}
               </div>
           </div>
         `;
@@ -454,15 +407,11 @@ export default function CyclingNutritionApp() {
       
       // Add hot weather electrolyte row if temperature is high
       if (alert.type === 'electrolytes' && currentTemp > 80) {
-        const timeStr = alert.time >= 60 ? 
-          `${Math.floor(alert.time/60)}h${alert.time%60 > 0 ? (alert.time%60).toString().padStart(2, '0') : ''}` : 
-          `${alert.time}'`;
-          
         timelineRows += `
           <div class="timeline-row hot-weather">
               <div class="time">${timeStr}</div>
               <div class="nutrition">
-                  <div class="chews">2X CHEWS</div>
+                  <div class="chews">${alert.item?.printLabel || '2X CHEWS'}</div>
                   <span style="font-size: 10px; color: #666;">(hot days only)</span>
               </div>
           </div>
@@ -470,6 +419,29 @@ export default function CyclingNutritionApp() {
       }
     });
 
+    // Climb table, so the rider knows what each categorized climb asks of them
+    const climbRows = fuelPlan.climbs.map(({ climb, minutes, note }) => `
+          <tr>
+              <td><strong>${climb.category ? CLIMB_CATEGORY_LABELS[climb.category].toUpperCase() : '-'}</strong></td>
+              <td>${unitSystem === 'US' ? `MI ${(climb.startDistance * 0.621371).toFixed(1)}` : `KM ${climb.startDistance.toFixed(1)}`}</td>
+              <td>${unitSystem === 'US' ? `${(climb.length * 0.621371).toFixed(1)}mi` : `${climb.length.toFixed(1)}km`}
+                  ${unitSystem === 'US' ? `+${Math.round(climb.elevationGain * 3.28084)}ft` : `+${Math.round(climb.elevationGain)}m`}</td>
+              <td>${climb.grade.toFixed(1)}% / ${Math.round(climb.maxGrade)}%</td>
+              <td>~${minutes}'</td>
+          </tr>
+          <tr class="climb-note"><td colspan="5">${note}</td></tr>`).join('');
+
+    const elevationProfile = routeData && routeData.track.length > 1
+      ? renderElevationProfileSvg(buildElevationProfile({
+        route: routeData,
+        alerts: fuelSchedule,
+        aidStations,
+        pacing: ridePace?.pacing,
+        durationMinutes: totalMinutes,
+        unitSystem
+      }))
+      : '';
+
     const printContent = `<!DOCTYPE html>
   <html lang="en">
   <head>
@@ -575,6 +547,11 @@ export default function CyclingNutritionApp() {
               width: 60px;
           }
           
+          .km {
+              font-size: 10px;
+              color: #4682B4;
+          }
+          
           .nutrition {
               display: flex;
               align-items: center;
@@ -633,6 +610,7 @@ export default function CyclingNutritionApp() {
           .level-30 { height: 30%; }
           .level-20 { height: 20%; }
           .level-10 { height: 10%; }
+          .level-0 { height: 0%; }
           
           .gel {
               background: linear-gradient(45deg, #FFD700, #FFA500);
@@ -657,6 +635,39 @@ export default function CyclingNutritionApp() {
               text-align: center;
           }
           
+          .drink {
+              background: linear-gradient(45deg, #87CEEB, #4682B4);
+              color: white;
+              padding: 4px 6px;
+              border-radius: 6px;
+              font-size: 9px;
+              font-weight: bold;
+              border: 2px solid #333;
+              text-align: center;
+          }
+          
+          .refill {
+              background-color: #333;
+              color: white;
+              padding: 4px 8px;
+              border-radius: 6px;
+              font-size: 10px;
+              font-weight: bold;
+              text-align: center;
+          }
+          
+          .stop {
+              font-size: 10px;
+              color: #333;
+              font-weight: bold;
+              text-transform: uppercase;
+          }
+          
+          .refill-row {
+              background-color: #e8f4fd;
+              border-left: 4px solid #4682B4;
+          }
+          
           .finish {
               background-color: #ff4444;
               color: white;
@@ -673,6 +684,35 @@ export default function CyclingNutritionApp() {
               border-left: 4px solid #ff6b6b;
           }
           
+          .profile {
+              margin-top: 10px;
+          }
+          
+          .climbs {
+              width: 100%;
+              margin-top: 10px;
+              border-collapse: collapse;
+              font-size: 10px;
+              color: #333;
+          }
+          
+          .climbs th {
+              text-align: left;
+              color: #666;
+              border-bottom: 2px solid #ccc;
+              padding: 3px 2px;
+          }
+          
+          .climbs td {
+              padding: 3px 2px;
+          }
+          
+          .climb-note td {
+              color: #666;
+              font-style: italic;
+              border-bottom: 1px solid #eee;
+          }
+          
           .note {
               text-align: center;
               margin-top: 10px;
@@ -692,11 +732,11 @@ export default function CyclingNutritionApp() {
               <div class="bottle-legend">
                   <div class="legend-item">
                       <div class="legend-bottle legend-sports"></div>
-                      <span>Electrolyte Drink (950ml)</span>
+                      <span>Electrolyte Drink (${bottles.capacity}ml)</span>
                   </div>
                   <div class="legend-item">
                       <div class="legend-bottle legend-water"></div>
-                      <span>Water (950ml)</span>
+                      <span>Water (${bottles.capacity}ml)</span>
                   </div>
               </div>
               <div class="column-headers">
@@ -711,8 +751,17 @@ export default function CyclingNutritionApp() {
               FINISH (${durationString})
           </div>
           
+          ${elevationProfile ? `<div class="profile">${elevationProfile}</div>` : ''}
+          
+          ${climbRows ? `
+          <table class="climbs">
+              <tr><th>CAT</th><th>START</th><th>LENGTH</th><th>AVG / MAX</th><th>TIME</th></tr>
+              ${climbRows}
+          </table>` : ''}
+          
           <div class="note">
               <strong>Total: ${totalFluidML}ml fluid + ${totalCarbsG}g carbs</strong><br>
+              ${packingSummary ? `Pack: ${packingSummary}<br>` : ''}
               Perfect for ${Math.round(totalDistanceMiles)}-mile efforts<br>
               Early fueling for sustained energy
           </div>
@@ -729,154 +778,26 @@ export default function CyclingNutritionApp() {
     };
   };
 
-  // Generate evidence-based fueling schedule
-  const generateSchedule = useCallback((durationMinutes: number) => {
-    const schedule: FuelAlert[] = [];
-
-    // STEP 1: Check if ANY fueling is needed
-    if (durationMinutes < 60) {
-      // No fueling needed for rides under 60 minutes
-      return schedule; // Return empty schedule
-    }
-
-    // STEP 2: Determine carb intake rate based on intensity + duration
-    let carbRate = 0; // g/hour
-    let startTime: number | null = null;
-    let carbInterval = 0; // minutes between carb intakes
-
-    if (rideIntensity === 'casual') {
-      // Zone 2 - mostly fat-fueled
-      if (durationMinutes < 90) {
-        carbRate = 0;
-        startTime = null;
-      } else if (durationMinutes < 150) {
-        carbRate = 20; // 20g/hour
-        startTime = 75;
-        carbInterval = 60; // Every 60 minutes
-      } else {
-        carbRate = 30; // 30g/hour
-        startTime = 75;
-        carbInterval = 50; // Every 50 minutes (slightly more frequent for long rides)
-      }
-    } else if (rideIntensity === 'moderate') {
-      // Zone 3 - balanced fat/carb
-      if (durationMinutes < 75) {
-        carbRate = 0;
-        startTime = null;
-      } else if (durationMinutes < 90) {
-        carbRate = 25; // 25g/hour
-        startTime = 60;
-        carbInterval = 60;
-      } else if (durationMinutes < 150) {
-        carbRate = 45; // 45g/hour
-        startTime = 60;
-        carbInterval = 35; // ~40g per intake
-      } else {
-        carbRate = 60; // 60g/hour
-        startTime = 60;
-        carbInterval = 25; // ~25g per intake
-      }
-    } else if (rideIntensity === 'hard') {
-      // Zone 4-5 - high carb oxidation
-      if (durationMinutes < 60) {
-        carbRate = 0;
-        startTime = null;
-      } else if (durationMinutes < 90) {
-        carbRate = 50; // 50g/hour
-        startTime = 45;
-        carbInterval = 30; // ~25g per intake
-      } else {
-        carbRate = 70; // 70g/hour
-        startTime = 45;
-        carbInterval = 20; // ~23g per intake
-      }
-    }
-
-    // STEP 3: Generate carb intake schedule
-    if (carbRate > 0 && startTime !== null) {
-      let currentTime = startTime;
-      const carbPerIntake = Math.round(carbRate * (carbInterval / 60));
-
-      while (currentTime < durationMinutes) {
-        schedule.push({
-          time: currentTime,
-          type: 'carbs',
-          amount: `${carbPerIntake}g (gel or sports drink)`,
-          priority: 'normal'
-        });
-        currentTime += carbInterval;
-      }
-    }
-
-    // Add pre-climb fueling alerts for major climbs (if hard/moderate intensity)
-    if (routeData && routeData.climbs.length > 0 && rideIntensity !== 'casual') {
-      const avgSpeed = routeData.distance / (durationMinutes / 60); // km/h
-
-      routeData.climbs.forEach(climb => {
-        if (climb.elevationGain > 100) { // Only for significant climbs
-          const climbStartTime = Math.round((climb.startDistance / avgSpeed) * 60);
-          const preFuelTime = Math.max(5, climbStartTime - 15); // 15 minutes before climb
-
-          // Only add if not too close to existing alerts and within ride duration
-          const nearbyAlert = schedule.find(alert => Math.abs(alert.time - preFuelTime) < 10);
-          if (!nearbyAlert && preFuelTime < durationMinutes) {
-            const elevationDisplay = unitSystem === 'US'
-              ? `+${Math.round(climb.elevationGain * 3.28084)}ft`
-              : `+${Math.round(climb.elevationGain)}m`;
-
-            schedule.push({
-              time: preFuelTime,
-              type: 'carbs',
-              amount: `20-25g before climb (${elevationDisplay})`,
-              priority: 'critical'
-            });
-          }
-        }
-      });
-    }
-
-    // STEP 4: Determine electrolyte needs (evidence-based thresholds)
-    let needsElectrolytes = false;
-    let electrolyteRate = 0; // mg sodium per hour
-    let electrolyteInterval = 0; // minutes between electrolyte intake
-
-    // Electrolytes only needed for rides 60+ minutes with heat/sweat
-    if (durationMinutes >= 90) {
-      if (currentTemp > 80 || nutritionProfile?.sweatRate === 'heavy') {
-        needsElectrolytes = true;
-        electrolyteRate = 500;
-        electrolyteInterval = 60;
-      } else if (currentTemp > 75 || nutritionProfile?.sweatRate === 'moderate') {
-        needsElectrolytes = true;
-        electrolyteRate = 300;
-        electrolyteInterval = 75;
-      }
-    } else if (durationMinutes >= 60 && durationMinutes < 90) {
-      // Only for hot conditions on shorter rides
-      if (currentTemp > 85 || nutritionProfile?.sweatRate === 'heavy') {
-        needsElectrolytes = true;
-        electrolyteRate = 400;
-        electrolyteInterval = 60;
-      }
-    }
-
-    // STEP 5: Generate electrolyte schedule
-    if (needsElectrolytes) {
-      let currentTime = 60; // Start electrolytes at 60 minutes
-
-      while (currentTime < durationMinutes) {
-        schedule.push({
-          time: currentTime,
-          type: 'electrolytes',
-          amount: `${electrolyteRate}mg sodium (tab or sports drink)`,
-          priority: 'normal'
-        });
-        currentTime += electrolyteInterval;
-      }
-    }
+  // Download the route with fuel markers for a bike computer
+  const exportCourse = (format: 'gpx' | 'tcx') => {
+    if (!routeData) return;
+    analytics.trackFeatureUsage('course_export', format, fuelSchedule.length);
 
-    return schedule.sort((a, b) => a.time - b.time);
-  }, [currentTemp, nutritionProfile, routeData, unitSystem, rideIntensity]);
+    const input = {
+      route: routeData,
+      alerts: fuelSchedule,
+      pacing: ridePace?.pacing,
+      durationMinutes: getEffectiveRideTime()
+    };
+    const content = format === 'gpx' ? exportCourseGPX(input) : exportCourseTCX(input);
+    const blob = new Blob([content], { type: format === 'gpx' ? 'application/gpx+xml' : 'application/vnd.garmin.tcx+xml' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${routeData.name.replace(/[^a-zA-Z0-9_-]+/g, '-').substring(0, 40) || 'route'}-fuel.${format}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
 
   // Timer functionality
   useEffect(() => {
@@ -974,10 +895,46 @@ export default function CyclingNutritionApp() {
     }
   };
 
-  // Update schedule when ride time/miles or temperature changes
-  useEffect(() => {
-    setFuelSchedule(generateSchedule(getEffectiveRideTime()));
-  }, [generateSchedule, getEffectiveRideTime]);
+  // Rebuild the fuel plan when ride, profile, weather or route inputs change
+  const aidStations = useMemo(
+    () => [...(routeData?.aidStations || []), ...manualStations],
+    [routeData, manualStations]
+  );
+
+  const fuelPlan = useMemo(() => planFueling({
+    ride: {
+      durationMinutes: getEffectiveRideTime(),
+      intensity: rideIntensity === 'mixed' ? 'moderate' : rideIntensity,
+      target: intensityTarget,
+      segments: rideIntensity === 'mixed' ? segments : undefined,
+      pacing: ridePace?.pacing,
+      distanceKm: rideType === 'miles' ? rideMiles * KM_PER_MILE :
+                  rideType === 'kilometers' ? rideKilometers :
+                  routeData ? routeData.distance : null,
+      preRideMeal
+    },
+    profile: nutritionProfile,
+    weather: {
+      temperature: currentTemp,
+      humidity: currentHumidity
+    },
+    route: routeData,
+    unitSystem,
+    products,
+    bottles: { count: bottleCount, capacity: bottleCapacity },
+    aidStations
+  }), [getEffectiveRideTime, rideIntensity, rideType, rideMiles, rideKilometers, nutritionProfile, currentTemp, currentHumidity, routeData, unitSystem, products, bottleCount, bottleCapacity, aidStations, preRideMeal, intensityTarget, segments, ridePace]);
+  const fuelSchedule = fuelPlan.alerts;
+
+  const packingList = useMemo(() => buildPackingList({
+    plan: fuelPlan,
+    durationMinutes: getEffectiveRideTime(),
+    temperature: currentTemp
+  }), [fuelPlan, getEffectiveRideTime, currentTemp]);
+
+  // Distance anchor for route-based alerts, in the rider's units
+  const formatAlertDistance = (km: number) =>
+    unitSystem === 'US' ? `mi ${(km * 0.621371).toFixed(1)}` : `km ${km.toFixed(1)}`;
 
   const formatTime = (minutes: number) => {
     const hours = Math.floor(minutes / 60);
@@ -985,9 +942,12 @@ export default function CyclingNutritionApp() {
     return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
   };
 
+  // Several alerts can share a minute and type (e.g. two gels moved off the same descent), so key them by position
+  const getAlertKey = (alert: FuelAlert) => `${fuelSchedule.indexOf(alert)}-${alert.type}-${alert.time}`;
+
   const getNextAlert = () => {
     return fuelSchedule.find(alert => 
-      alert.time > elapsedTime && !completedAlerts.has(alert.time)
+      alert.time > elapsedTime && !completedAlerts.has(getAlertKey(alert))
     );
   };
 
@@ -995,25 +955,21 @@ export default function CyclingNutritionApp() {
     return fuelSchedule.find(alert => 
       alert.time <= elapsedTime && 
       alert.time > elapsedTime - 5 && 
-      !completedAlerts.has(alert.time)
+      !completedAlerts.has(getAlertKey(alert))
     );
   };
 
-  const markCompleted = (time: number) => {
-    // Find the alert being completed
-    const alert = fuelSchedule.find(a => a.time === time);
-    if (alert) {
-      const rideProgress = (elapsedTime / getEffectiveRideTime()) * 100;
-      
-      // Track fuel alert completion
-      analytics.trackFuelAlertCompleted({
-        time: time,
-        type: alert.type,
-        rideProgress: rideProgress
-      });
-    }
+  const markCompleted = (alert: FuelAlert) => {
+    const rideProgress = (elapsedTime / getEffectiveRideTime()) * 100;
+    
+    // Track fuel alert completion
+    analytics.trackFuelAlertCompleted({
+      time: alert.time,
+      type: alert.type,
+      rideProgress: rideProgress
+    });
     
-    setCompletedAlerts(prev => new Set([...prev, time]));
+    setCompletedAlerts(prev => new Set([...prev, getAlertKey(alert)]));
   };
 
   const startRide = () => {
@@ -1025,6 +981,9 @@ export default function CyclingNutritionApp() {
       hasProfile: !!nutritionProfile
     });
 
+    // Packing checkmarks only matter until the ride starts
+    PackingListStorage.clear();
+
     setIsRiding(true);
     setElapsedTime(0);
     setCompletedAlerts(new Set());
@@ -1151,13 +1110,39 @@ export default function CyclingNutritionApp() {
                     >
                       Hard (Zone 4-5)
                     </button>
+                    <button
+                      onClick={() => setRideIntensity('mixed')}
+                      className={`flex-1 px-4 py-2 rounded-lg font-medium transition-colors ${
+                        rideIntensity === 'mixed'
+                          ? 'bg-purple-600 text-white'
+                          : 'bg-white/20 text-blue-200 hover:bg-white/30'
+                      }`}
+                    >
+                      Mixed (Segments)
+                    </button>
                   </div>
                   <p className="text-sm text-blue-200 mb-4">
                     {rideIntensity === 'casual' && '🚴 Easy pace, conversational - mostly fat-fueled'}
                     {rideIntensity === 'moderate' && '💪 Tempo pace, can talk but not chat - balanced fuel'}
                     {rideIntensity === 'hard' && '🔥 High intensity, intervals/racing - high carb needs'}
+                    {rideIntensity === 'mixed' && '🔀 Intervals, group rides, racing - fueling follows each segment'}
                   </p>
 
+                  {rideIntensity === 'mixed' && (
+                    <SegmentEditor
+                      segments={segments}
+                      onSegmentsChange={setSegments}
+                      plans={fuelPlan.segments}
+                      totalMinutes={getEffectiveRideTime()}
+                    />
+                  )}
+
+                  <IntensityTargetInput
+                    target={intensityTarget}
+                    onTargetChange={setIntensityTarget}
+                    effort={fuelPlan.effort}
+                  />
+
                   <label className="block text-sm font-medium mb-2">
                     Ride Planning Method
                   </label>
@@ -1232,7 +1217,9 @@ export default function CyclingNutritionApp() {
                         placeholder="Enter miles"
                       />
                       <p className="text-sm text-blue-200 mt-1">
-                        Estimated time: {formatTime(milesToTime(rideMiles))} (at 14mph avg)
+                        Estimated time: {formatTime(getEffectiveRideTime())} {ridePace
+                          ? `(at ${(ridePace.averageSpeed * 0.621371).toFixed(1)}mph on this route)`
+                          : '(at 14mph avg)'}
                       </p>
                     </div>
                   ) : (
@@ -1254,7 +1241,9 @@ export default function CyclingNutritionApp() {
                         placeholder="Enter kilometers"
                       />
                       <p className="text-sm text-blue-200 mt-1">
-                        Estimated time: {formatTime(kilometersToTime(rideKilometers))} (at 22.5km/h avg)
+                        Estimated time: {formatTime(getEffectiveRideTime())} {ridePace
+                          ? `(at ${ridePace.averageSpeed.toFixed(1)}km/h on this route)`
+                          : '(at 22.5km/h avg)'}
                       </p>
                     </div>
                   )}
@@ -1300,27 +1289,41 @@ export default function CyclingNutritionApp() {
                   Route Analysis (Optional)
                 </h3>
                 <p className="text-sm text-purple-200 mb-3">
-                  Upload a GPX file for elevation-based nutrition calculations and pre-climb fueling alerts
+                  Upload a GPX, TCX, FIT, KML or GeoJSON route for elevation-based nutrition calculations and pre-climb fueling alerts
                 </p>
                 
                 <div className="flex items-center gap-3">
                   <label className="flex items-center gap-2 px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded-lg cursor-pointer transition-colors">
                     <Upload className="w-4 h-4" />
                     <span className="text-sm font-medium">
-                      {isParsingGPX ? 'Processing...' : 'Upload GPX File'}
+                      {isParsingGPX ? 'Processing...' : 'Upload Route File'}
                     </span>
                     <input
                       type="file"
-                      accept=".gpx"
+                      accept={ACCEPTED_EXTENSIONS}
                       onChange={handleGPXUpload}
                       disabled={isParsingGPX}
                       className="hidden"
                     />
                   </label>
                   
-                  {routeData && (
+                  {isParsingGPX && (
                     <button
-                      onClick={() => setRouteData(null)}
+                      onClick={cancelGPXParse}
+                      className="px-3 py-2 text-purple-300 hover:text-purple-100 text-sm"
+                    >
+                      Cancel
+                    </button>
+                  )}
+
+                  {routeData && !isParsingGPX && (
+                    <button
+                      onClick={() => {
+                        setRouteData(null);
+                        setGpxWarnings([]);
+                        setRouteTracks([]);
+                        routeFileRef.current = null;
+                      }}
                       className="px-3 py-2 text-purple-300 hover:text-purple-100 text-sm"
                     >
                       Clear Route
@@ -1328,14 +1331,64 @@ export default function CyclingNutritionApp() {
                   )}
                 </div>
                 
+                {parseProgress && (
+                  <div className="mt-2">
+                    <div className="text-xs text-purple-200 mb-1">
+                      {parseProgress.stage === 'reading' ? 'Reading file' : parseProgress.stage === 'parsing' ? 'Parsing track' : 'Analyzing climbs'}
+                      {parseProgress.stage === 'parsing' && parseProgress.progress > 0 && ` ${Math.round(parseProgress.progress * 100)}%`}
+                    </div>
+                    <div className="w-full bg-white/20 rounded-full h-1.5">
+                      <div
+                        className="bg-purple-400 h-1.5 rounded-full transition-all"
+                        style={{ width: `${Math.round((parseProgress.stage === 'reading' ? 0 : parseProgress.stage === 'parsing' ? parseProgress.progress * 0.8 : 0.9) * 100)}%` }}
+                      />
+                    </div>
+                  </div>
+                )}
+
                 {gpxError && (
                   <p className="text-red-300 text-sm mt-2">{gpxError}</p>
                 )}
+
+                {repairableFile && !isParsingGPX && (
+                  <button
+                    onClick={() => parseGPXFile(repairableFile, { repair: true })}
+                    className="mt-2 px-3 py-1 bg-white/20 hover:bg-white/30 text-purple-100 rounded text-sm"
+                  >
+                    Drop invalid points and retry
+                  </button>
+                )}
+
+                {gpxWarnings.length > 0 && (
+                  <p className="text-amber-300 text-xs mt-2">{gpxWarnings.join('. ')}</p>
+                )}
                 
                 {routeData && (
                   <div className="mt-3 p-3 bg-purple-600/30 rounded-lg">
                     <div className="text-sm text-purple-100">
                       <div className="font-medium text-purple-200 mb-2">📍 {routeData.name}</div>
+                      {routeTracks.length > 1 && (
+                        <label className="mb-2 flex items-center gap-2 text-xs text-purple-200">
+                          This file has {routeTracks.length} tracks:
+                          <select
+                            value={routeTrackIndex}
+                            onChange={(e) => {
+                              const routeFile = routeFileRef.current;
+                              if (routeFile) {
+                                parseGPXFile(routeFile.file, { trackIndex: Number(e.target.value), repair: routeFile.repair });
+                              }
+                            }}
+                            disabled={isParsingGPX}
+                            className="p-1 rounded bg-white/20 border border-white/30 text-white"
+                          >
+                            {routeTracks.map((track, index) => (
+                              <option key={index} value={index} className="text-gray-900">
+                                {track.name || `${track.type === 'route' ? 'Route' : 'Track'} ${index + 1}`} ({track.type}, {track.points} points)
+                              </option>
+                            ))}
+                          </select>
+                        </label>
+                      )}
                       <div className="grid grid-cols-2 gap-3">
                         <div>Distance: <span className="text-white">
                           {unitSystem === 'US' 
@@ -1348,18 +1401,128 @@ export default function CyclingNutritionApp() {
                             ? `+${Math.round(routeData.elevationGain * 3.28084)} ft`
                             : `+${Math.round(routeData.elevationGain)} m`
                           }
-                        </span></div>
-                        <div>Est. Time: <span className="text-white">{formatTime(routeData.estimatedTime)}</span></div>
-                        <div>Climbs: <span className="text-white">{routeData.climbs.length} major</span></div>
+                        </span>
+                          <span
+                            className="block text-xs text-purple-300"
+                            title="Smoothed gain is comparable with Strava and Garmin; raw sums every recorded rise"
+                          >
+                            raw {unitSystem === 'US'
+                              ? `+${Math.round(routeData.rawElevationGain * 3.28084)} ft`
+                              : `+${Math.round(routeData.rawElevationGain)} m`
+                            }
+                          </span>
+                        </div>
+                        <div>Est. Time: <span className="text-white">{formatTime(routeTime ? routeTime.minutes : routeData.estimatedTime)}</span></div>
+                        <div>Climbs: <span className="text-white">{routeData.climbs.length} ({routeData.climbs.filter(climb => climb.category).length} categorized)</span></div>
                       </div>
-                      {routeData.climbs.length > 0 && (
+                      {routeTime && (
+                        <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-purple-200">
+                          <span>
+                            At {routeTime.power}W, {routeTime.totalMass}kg rider + bike:{' '}
+                            {unitSystem === 'US'
+                              ? `${(routeTime.averageSpeed * 0.621371).toFixed(1)} mph`
+                              : `${routeTime.averageSpeed.toFixed(1)} km/h`
+                            } average
+                          </span>
+                          <label className="flex items-center gap-1">
+                            Bike + kit
+                            <input
+                              type="number"
+                              value={bikeMass}
+                              onChange={(e) => setBikeMass(Math.max(0, Number(e.target.value)))}
+                              className="w-14 p-1 rounded bg-white/20 border border-white/30 text-white"
+                              min="5"
+                              max="30"
+                              step="0.5"
+                              aria-label="Bike and kit weight in kg"
+                            />
+                            kg
+                          </label>
+                        </div>
+                      )}
+                      {routeTime && windSpeed > 0 && (
                         <div className="mt-2 text-xs text-purple-200">
-                          Major climbs detected - pre-climb fueling alerts added
+                          Wind {convertSpeed(windSpeed)} {getSpeedUnit()} from {getWindDirection(windDirection)}:{' '}
+                          {routeTime.windDelay >= 0 ? `+${routeTime.windDelay}` : routeTime.windDelay} min vs still air
+                          {routeTime.headwindSections.length > 0 && (
+                            <div className="mt-1 text-amber-300">
+                              Headwind sections: {routeTime.headwindSections.map(section => unitSystem === 'US'
+                                ? `mi ${(section.startDistance * 0.621371).toFixed(0)}-${(section.endDistance * 0.621371).toFixed(0)} (${Math.round(section.headwind * 0.621371)} mph)`
+                                : `km ${section.startDistance.toFixed(0)}-${section.endDistance.toFixed(0)} (${section.headwind} km/h)`
+                              ).join(', ')}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                      {routeData.recording && (
+                        <div className="mt-2 text-xs text-purple-200">
+                          <div>
+                            Recorded ride: <span className="text-white">{formatTime(routeData.recording.movingMinutes)}</span> moving
+                            of {formatTime(routeData.recording.elapsedMinutes)} elapsed,{' '}
+                            {unitSystem === 'US'
+                              ? `${(routeData.recording.movingSpeed * 0.621371).toFixed(1)} mph`
+                              : `${routeData.recording.movingSpeed.toFixed(1)} km/h`
+                            } moving average
+                          </div>
+                          {routeData.recording.stops.length > 0 && (
+                            <div className="mt-1">
+                              Stops: {routeData.recording.stops.map(stop => `${unitSystem === 'US'
+                                ? `mi ${(stop.distance * 0.621371).toFixed(0)}`
+                                : `km ${stop.distance.toFixed(0)}`
+                              } (${Math.round(stop.minutes)} min)`).join(', ')}
+                            </div>
+                          )}
+                          {routeData.recording.splits.length > 1 && (
+                            <div className="mt-1">
+                              Splits: {routeData.recording.splits.map(split => unitSystem === 'US'
+                                ? `mi ${(split.startDistance * 0.621371).toFixed(0)}-${(split.endDistance * 0.621371).toFixed(0)} ${(split.speed * 0.621371).toFixed(1)} mph`
+                                : `km ${split.startDistance.toFixed(0)}-${split.endDistance.toFixed(0)} ${split.speed.toFixed(1)} km/h`
+                              ).join(', ')}
+                            </div>
+                          )}
+                          <label className="mt-1 flex items-center gap-2">
+                            <input
+                              type="checkbox"
+                              checked={useRecordedPace}
+                              onChange={(e) => {
+                                setUseRecordedPace(e.target.checked);
+                                analytics.trackFeatureUsage('recorded_pace', e.target.checked ? 'enabled' : 'disabled');
+                              }}
+                            />
+                            Plan a repeat at my recorded moving pace instead of the {routeTime ? `${routeTime.power}W` : 'modelled'} estimate
+                          </label>
+                        </div>
+                      )}
+                      <ElevationProfile
+                        route={routeData}
+                        alerts={fuelSchedule}
+                        aidStations={aidStations}
+                        pacing={ridePace?.pacing}
+                        durationMinutes={getEffectiveRideTime()}
+                        unitSystem={unitSystem}
+                      />
+                      <ClimbTable climbs={fuelPlan.climbs} unitSystem={unitSystem} />
+                      {routeData.descents.some(descent => descent.fast || descent.technical) && (
+                        <div className="mt-2 text-xs text-amber-300">
+                          No fuel scheduled on descents: {routeData.descents
+                            .filter(descent => descent.fast || descent.technical)
+                            .map(descent => `${unitSystem === 'US'
+                              ? `mi ${(descent.startDistance * 0.621371).toFixed(0)}-${(descent.endDistance * 0.621371).toFixed(0)}`
+                              : `km ${descent.startDistance.toFixed(0)}-${descent.endDistance.toFixed(0)}`
+                            } (${descent.grade.toFixed(1)}%${descent.technical ? ', technical' : ''})`)
+                            .join(', ')}
                         </div>
                       )}
                     </div>
                   </div>
                 )}
+
+                <AidStationEditor
+                  routeStations={routeData?.aidStations || []}
+                  manualStations={manualStations}
+                  unitSystem={unitSystem}
+                  onManualStationsChange={setManualStations}
+                />
               </div>
 
               {/* Ride Forecast */}
@@ -1481,12 +1644,12 @@ export default function CyclingNutritionApp() {
                       ) : rideType === 'miles' ? (
                         <>
                           <div>Distance: <span className="font-medium text-white">{unitSystem === 'UK' ? Math.round(rideMiles * 1.609) : rideMiles} {getDistanceUnit()}</span></div>
-                          <div>Est. Duration: <span className="font-medium text-white">{formatTime(milesToTime(rideMiles))}</span></div>
+                          <div>Est. Duration: <span className="font-medium text-white">{formatTime(getEffectiveRideTime())}</span></div>
                         </>
                       ) : (
                         <>
                           <div>Distance: <span className="font-medium text-white">{unitSystem === 'UK' ? rideKilometers : Math.round(rideKilometers * 0.621)} {getDistanceUnit()}</span></div>
-                          <div>Est. Duration: <span className="font-medium text-white">{formatTime(kilometersToTime(rideKilometers))}</span></div>
+                          <div>Est. Duration: <span className="font-medium text-white">{formatTime(getEffectiveRideTime())}</span></div>
                         </>
                       )}
                     </div>
@@ -1496,7 +1659,13 @@ export default function CyclingNutritionApp() {
                     <div className="text-blue-200 mb-2">Fuel Requirements</div>
                     <div className="space-y-1">
                       <div>Fuel alerts: <span className="font-medium text-white">{fuelSchedule.filter(alert => alert.type === 'carbs').length}</span></div>
-                      <div>Total carbs: <span className="font-medium text-white">{fuelSchedule.filter(alert => alert.type === 'carbs').length * 12}g approx.</span></div>
+                      <div>Total carbs: <span className="font-medium text-white">{fuelPlan.totals.carbs}g ({fuelPlan.carbRate}g/hour)</span></div>
+                      {fuelPlan.totals.caffeine > 0 && (
+                        <div>Caffeine: <span className="font-medium text-white">{fuelPlan.totals.caffeine}mg</span></div>
+                      )}
+                      {nutritionProfile && (
+                        <div>Scaled for: <span className="font-medium text-white">{fuelPlan.bodyMass} kg body weight</span></div>
+                      )}
                       {routeData && routeData.elevationGain > 300 && (
                         <div>Elevation boost: <span className="font-medium text-orange-300">
                           +{Math.round((routeData.elevationGain / 1000) * 50)}% carbs 
@@ -1510,7 +1679,7 @@ export default function CyclingNutritionApp() {
                         <div>Electrolytes: <span className="font-medium text-yellow-300">{fuelSchedule.filter(alert => alert.type === 'electrolytes').length} doses needed</span></div>
                       )}
                       {routeData && routeData.climbs.length > 0 && (
-                        <div>Pre-climb alerts: <span className="font-medium text-purple-300">{fuelSchedule.filter(alert => alert.priority === 'critical').length} added</span></div>
+                        <div>Pre-climb alerts: <span className="font-medium text-purple-300">{fuelSchedule.filter(alert => alert.type === 'carbs' && alert.priority === 'critical').length} added</span></div>
                       )}
                     </div>
                   </div>
@@ -1535,9 +1704,47 @@ export default function CyclingNutritionApp() {
                     <div className="text-blue-200 mb-2">Hydration</div>
                     <div className="space-y-1">
                       <div>Est. fluid loss: <span className="font-medium text-white">{Math.round((getEffectiveRideTime() / 60) * 16)}oz</span></div>
-                      <div>Recommended intake: <span className="font-medium text-white">{Math.round((getEffectiveRideTime() / 60) * 20)}oz</span></div>
-                      {nutritionProfile?.sweatRate === 'heavy' && (
-                        <div className="text-yellow-300 text-xs">Heavy sweater - increase by 25%</div>
+                      <div>Recommended intake: <span className="font-medium text-white">
+                        {unitSystem === 'US'
+                          ? `${Math.round(fuelPlan.totals.fluid / 29.5735)}oz (${Math.round(fuelPlan.fluidRate / 29.5735)}oz/hour)`
+                          : `${fuelPlan.totals.fluid}ml (${fuelPlan.fluidRate}ml/hour)`
+                        }
+                      </span></div>
+                      <div className="text-xs text-blue-200">{fuelPlan.hydration.fluidReason}</div>
+                      <div className="flex items-center gap-2 pt-1">
+                        <span>Bottles:</span>
+                        <select
+                          value={bottleCount}
+                          onChange={(e) => setBottleCount(Number(e.target.value))}
+                          className="p-1 rounded bg-white/20 border border-white/30 text-white"
+                          aria-label="Number of bottles"
+                        >
+                          {[1, 2, 3].map(count => (
+                            <option key={count} value={count}>{count}</option>
+                          ))}
+                        </select>
+                        <span>×</span>
+                        <select
+                          value={bottleCapacity}
+                          onChange={(e) => setBottleCapacity(Number(e.target.value))}
+                          className="p-1 rounded bg-white/20 border border-white/30 text-white"
+                          aria-label="Bottle capacity"
+                        >
+                          {[500, 620, 750, 950].map(capacity => (
+                            <option key={capacity} value={capacity}>{capacity}ml</option>
+                          ))}
+                        </select>
+                      </div>
+                      {fuelPlan.hydration.refills.length > 0 ? (
+                        <div className="text-cyan-300 text-xs">
+                          {fuelPlan.hydration.refills.length} refill{fuelPlan.hydration.refills.length > 1 ? 's' : ''} needed: {fuelPlan.hydration.refills.map(refill =>
+                            refill.distance !== null
+                              ? `${formatTime(refill.time)} (${unitSystem === 'US' ? `mile ${Math.round(refill.distance * 0.621371)}` : `km ${Math.round(refill.distance)}`}${refill.station ? ` ${refill.station.name}` : ''})`
+                              : formatTime(refill.time)
+                          ).join(', ')}
+                        </div>
+                      ) : (
+                        <div className="text-green-300 text-xs">Bottles cover the whole ride</div>
                       )}
                     </div>
                   </div>
@@ -1545,6 +1752,13 @@ export default function CyclingNutritionApp() {
               </div>
             </article>
 
+            {/* Glycogen Balance */}
+            <GlycogenChart
+              projection={fuelPlan.glycogen}
+              preRideMeal={preRideMeal}
+              onPreRideMealChange={setPreRideMeal}
+            />
+
             {/* Fuel Schedule Preview */}
             <section className="bg-white/10 rounded-xl p-6 backdrop-blur-sm" aria-label="Fuel Schedule">
               <div className="flex items-center justify-between mb-4">
@@ -1560,8 +1774,24 @@ export default function CyclingNutritionApp() {
                   Print Schedule
                 </button>
               </div>
+              {routeData && fuelSchedule.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 -mt-2 mb-4 text-sm">
+                  <span className="text-blue-200">Send to your bike computer:</span>
+                  {(['gpx', 'tcx'] as const).map(format => (
+                    <button
+                      key={format}
+                      onClick={() => exportCourse(format)}
+                      className="flex items-center gap-1 px-3 py-1 bg-white/10 hover:bg-white/20 rounded-lg transition-colors"
+                      title={format === 'gpx' ? 'Route with fuel waypoints' : 'Course with Food/Water course points'}
+                    >
+                      <Download className="w-4 h-4" />
+                      {format.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+              )}
               <div className="space-y-3">
-                {fuelSchedule.length === 0 ? (
+                {!fuelSchedule.some(alert => alert.type === 'carbs' || alert.type === 'electrolytes') && (
                   <div className="p-6 bg-green-500/20 border border-green-500/30 rounded-lg">
                     <div className="flex items-center gap-3 mb-3">
                       <svg className="w-6 h-6 text-green-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -1571,9 +1801,7 @@ export default function CyclingNutritionApp() {
                     </div>
                     <p className="text-green-200">
                       {(() => {
-                        const duration = rideType === 'time' ? rideTime :
-                                        rideType === 'miles' ? milesToTime(rideMiles) :
-                                        kilometersToTime(rideKilometers);
+                        const duration = getEffectiveRideTime();
                         if (duration < 60) {
                           return "Your glycogen stores are sufficient for rides under 60 minutes. Just bring water and enjoy the ride!";
                         } else if (rideIntensity === 'casual' && duration < 90) {
@@ -1589,53 +1817,49 @@ export default function CyclingNutritionApp() {
                       </p>
                     </div>
                   </div>
-                ) : (
-                  fuelSchedule.map((alert, index) => (
-                    <div key={index} className="flex items-center gap-3 p-3 bg-white/5 rounded-lg">
-                      <div className="w-16 text-center">
-                        <Clock className="w-4 h-4 mx-auto mb-1" />
-                        <span className="text-sm font-mono">{formatTime(alert.time)}</span>
-                      </div>
-                      <div className="flex-1">
-                        <div className="flex items-center gap-2">
-                          {alert.type === 'carbs' ? (
-                            <Zap className="w-4 h-4 text-yellow-400" />
-                          ) : (
-                            <Droplets className="w-4 h-4 text-blue-400" />
-                          )}
-                          <span>{alert.amount}</span>
-                        </div>
+                )}
+                {fuelSchedule.map(alert => (
+                  <div key={getAlertKey(alert)} className="flex items-center gap-3 p-3 bg-white/5 rounded-lg">
+                    <div className="w-16 text-center">
+                      <Clock className="w-4 h-4 mx-auto mb-1" />
+                      <span className="text-sm font-mono">{formatTime(alert.time)}</span>
+                      {alert.distance !== undefined && (
+                        <span className="block text-xs text-purple-300">{formatAlertDistance(alert.distance)}</span>
+                      )}
+                    </div>
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2">
+                        {alert.station ? (
+                          <MapPin className="w-4 h-4 text-purple-300" />
+                        ) : alert.type === 'carbs' ? (
+                          <Zap className="w-4 h-4 text-yellow-400" />
+                        ) : alert.type === 'fluid' ? (
+                          <GlassWater className={`w-4 h-4 ${alert.priority === 'critical' ? 'text-red-300' : 'text-cyan-300'}`} />
+                        ) : (
+                          <Droplets className="w-4 h-4 text-blue-400" />
+                        )}
+                        <span>{alert.amount}</span>
                       </div>
+                      {alert.rationale && (
+                        <div className="text-xs text-blue-200 mt-1">{alert.rationale}</div>
+                      )}
+                      {alert.adjustments.map(note => (
+                        <div key={note} className="text-xs text-amber-300 mt-1">⚠ {note}</div>
+                      ))}
                     </div>
-                  ))
-                )}
+                  </div>
+                ))}
               </div>
             </section>
 
+            {/* Fuel Products */}
+            <ProductCatalogPanel
+              products={products}
+              onProductsChange={setProducts}
+            />
+
             {/* Pre-Ride Checklist */}
-            <section className="bg-green-500/20 rounded-xl p-6 border border-green-500/30" aria-label="Pre-Ride Checklist">
-              <h3 className="text-xl font-semibold mb-4 text-green-300">Pre-Ride Preparation Checklist</h3>
-              <div className="space-y-2">
-                <div className="flex items-center gap-3">
-                  <input type="checkbox" className="w-5 h-5" />
-                  <span>Overnight oats + fruit bar 2-3 hours before</span>
-                </div>
-                <div className="flex items-center gap-3">
-                  <input type="checkbox" className="w-5 h-5" />
-                  <span>Sports drink bottle (not plain water)</span>
-                </div>
-                <div className="flex items-center gap-3">
-                  <input type="checkbox" className="w-5 h-5" />
-                  <span>Gels/chews for scheduled fuel</span>
-                </div>
-                {currentTemp > 80 && (
-                  <div className="flex items-center gap-3">
-                    <input type="checkbox" className="w-5 h-5" />
-                    <span>Extra electrolyte tabs for hot weather</span>
-                  </div>
-                )}
-              </div>
-            </section>
+            <PackingList items={packingList} />
 
             <button 
               onClick={startRide}
@@ -1677,8 +1901,16 @@ export default function CyclingNutritionApp() {
                   <h3 className="text-xl font-semibold text-red-300">Fuel Now!</h3>
                 </div>
                 <p className="text-lg mb-4">{currentAlert.amount}</p>
+                {currentAlert.distance !== undefined && (
+                  <p className="text-sm text-blue-200 -mt-2 mb-4">
+                    Due at {formatAlertDistance(currentAlert.distance)} on your bike computer - go by distance if you are ahead or behind schedule
+                  </p>
+                )}
+                {currentAlert.adjustments.length > 0 && (
+                  <p className="text-sm text-amber-300 -mt-2 mb-4">{currentAlert.adjustments.join(' • ')}</p>
+                )}
                 <button 
-                  onClick={() => markCompleted(currentAlert.time)}
+                  onClick={() => markCompleted(currentAlert)}
                   className="bg-green-600 hover:bg-green-700 px-6 py-2 rounded-lg font-medium"
                 >
                   Mark Complete
@@ -1693,7 +1925,8 @@ export default function CyclingNutritionApp() {
                 <div className="flex items-center gap-3">
                   <Timer className="w-5 h-5 text-blue-400" />
                   <span>
-                    In {nextAlert.time - elapsedTime} minutes: {nextAlert.amount}
+                    In {nextAlert.time - elapsedTime} minutes
+                    {nextAlert.distance !== undefined && ` (at ${formatAlertDistance(nextAlert.distance)})`}: {nextAlert.amount}
                   </span>
                 </div>
               </div>
@@ -1704,9 +1937,9 @@ export default function CyclingNutritionApp() {
               <h3 className="text-lg font-semibold mb-3">Completed</h3>
               <div className="space-y-2">
                 {fuelSchedule
-                  .filter(alert => completedAlerts.has(alert.time))
-                  .map((alert, index) => (
-                    <div key={index} className="flex items-center gap-3 text-green-300">
+                  .filter(alert => completedAlerts.has(getAlertKey(alert)))
+                  .map(alert => (
+                    <div key={getAlertKey(alert)} className="flex items-center gap-3 text-green-300">
                       <span className="font-mono w-12">{formatTime(alert.time)}</span>
                       <span>✓ {alert.amount}</span>
                     </div>
@@ -17,6 +17,9 @@ interface SurveyData {
   preferredFuels: string[];
   experienceLevel: 'beginner' | 'intermediate' | 'advanced';
   name: string;
+  ftp?: number; // watts
+  maxHr?: number; // bpm
+  thresholdHr?: number; // bpm
 }
 
 const INITIAL_DATA: SurveyData = {
@@ -215,6 +218,34 @@ export default function NutritionSurvey() {
               <div className="text-sm opacity-80">{option.desc}</div>
             </button>
           ))}
+
+          <div className="pt-4">
+            <p className="text-blue-200 text-sm mb-3">
+              Train with power or heart rate? Add your numbers (optional) to plan fueling from a target power or zone
+            </p>
+            <div className="grid grid-cols-3 gap-3">
+              {[
+                { field: 'ftp' as const, label: 'FTP (watts)', min: 50, max: 600 },
+                { field: 'maxHr' as const, label: 'Max HR (bpm)', min: 100, max: 230 },
+                { field: 'thresholdHr' as const, label: 'Threshold HR (bpm)', min: 80, max: 220 }
+              ].map(metric => (
+                <label key={metric.field} className="flex flex-col gap-1 text-sm">
+                  <span>{metric.label}</span>
+                  <input
+                    type="number"
+                    value={surveyData[metric.field] ?? ''}
+                    onChange={(e) => setSurveyData(prev => ({
+                      ...prev,
+                      [metric.field]: e.target.value === '' ? undefined : Number(e.target.value)
+                    }))}
+                    className="p-3 rounded-lg bg-white/20 border border-white/30 text-white"
+                    min={metric.min}
+                    max={metric.max}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
         </div>
       )
     },
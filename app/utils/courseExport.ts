@@ -0,0 +1,159 @@
+/**
+ * Course export for bike computers
+ * Writes the uploaded route with the fuel schedule as GPX waypoints or TCX course points
+ */
+
+import type { FuelAlert } from './fuelingEngine';
+import { GPXValidator } from './gpxValidator';
+import { interpolateTrack, type RouteData } from './routeAnalysis';
+import { createPace, type PacingPoint } from './speedModel';
+
+export interface CourseExportInput {
+  route: RouteData;
+  alerts: FuelAlert[];
+  pacing?: PacingPoint[]; // the same pacing the fuel plan was built from
+  durationMinutes: number;
+  startTime?: Date; // TCX courses need absolute times; defaults to now
+}
+
+export type CoursePointType = 'Food' | 'Water' | 'Generic';
+
+export interface CourseMarker {
+  lat: number;
+  lon: number;
+  ele: number;
+  distance: number; // km
+  time: number; // minutes from the start
+  name: string; // short, for head unit screens
+  notes: string;
+  type: CoursePointType;
+}
+
+// TCX restricts course point names to 10 characters and course names to 15
+const MAX_POINT_NAME = 10;
+const MAX_COURSE_NAME = 15;
+const CREATOR = 'Cycling Fuel Planner';
+
+function clean(text: string, maxLength?: number): string {
+  const sanitized = GPXValidator.sanitizeText(text);
+  return maxLength ? sanitized.substring(0, maxLength).trim() : sanitized;
+}
+
+function getMarkerName(alert: FuelAlert): string {
+  if (alert.station) return alert.type === 'fluid' ? 'REFILL' : 'RESTOCK';
+  // Refills without an aid station are critical fluid alerts, as on the printout
+  if (alert.type === 'fluid') return alert.priority === 'critical' ? 'REFILL' : `DRINK ${alert.fluid}`;
+  if (alert.type === 'electrolytes') return alert.item?.printLabel || 'SODIUM';
+  return alert.item?.printLabel || 'EAT';
+}
+
+/**
+ * Places every alert on the route, from its distance anchor or the plan's pacing
+ */
+export function buildCourseMarkers(input: CourseExportInput): CourseMarker[] {
+  const { route } = input;
+  if (route.track.length === 0) return [];
+  const pace = createPace(input.pacing, route.distance, input.durationMinutes);
+
+  return input.alerts.flatMap(alert => {
+    const distance = alert.distance ?? pace?.distanceAt(alert.time);
+    if (distance === undefined || distance < 0 || distance > route.distance) return [];
+    const point = interpolateTrack(route.track, distance);
+    return [{
+      lat: point.lat,
+      lon: point.lon,
+      ele: point.ele,
+      distance,
+      time: alert.time,
+      name: clean(getMarkerName(alert), MAX_POINT_NAME),
+      notes: clean(alert.amount),
+      type: alert.type === 'fluid' ? 'Water' : alert.type === 'restock' ? 'Generic' : 'Food'
+    }];
+  });
+}
+
+const coordinate = (value: number) => value.toFixed(6);
+
+/**
+ * GPX 1.1 with the route as a track and one waypoint per fuel alert
+ */
+export function exportCourseGPX(input: CourseExportInput): string {
+  const name = clean(input.route.name);
+  const waypoints = buildCourseMarkers(input).map(marker => `
+  <wpt lat="${coordinate(marker.lat)}" lon="${coordinate(marker.lon)}">
+    <ele>${marker.ele.toFixed(1)}</ele>
+    <name>${marker.name}</name>
+    <desc>${marker.notes}</desc>
+    <sym>${marker.type}</sym>
+    <type>${marker.type}</type>
+  </wpt>`).join('');
+
+  // Gaps between the uploaded file's segments stay gaps in the export
+  const trackpoints = input.route.track.map(point => `${point.segmentStart ? `
+    </trkseg>
+    <trkseg>` : ''}
+      <trkpt lat="${coordinate(point.lat)}" lon="${coordinate(point.lon)}"><ele>${point.ele.toFixed(1)}</ele></trkpt>`).join('');
+
+  return `<?xml version="1.0"?>
+<gpx version="1.1" creator="${CREATOR}" xmlns="http://www.topografix.com/GPX/1/1">
+  <metadata>
+    <name>${name}</name>
+  </metadata>${waypoints}
+  <trk>
+    <name>${name}</name>
+    <trkseg>${trackpoints}
+    </trkseg>
+  </trk>
+</gpx>
+`;
+}
+
+/**
+ * TCX course with timed trackpoints and Food/Water course points, for Garmin and Wahoo head units
+ */
+export function exportCourseTCX(input: CourseExportInput): string {
+  const { route } = input;
+  const start = (input.startTime || new Date()).getTime();
+  const pace = createPace(input.pacing, route.distance, input.durationMinutes);
+  const timeAt = (minutes: number) => new Date(start + minutes * 60000).toISOString();
+  const first = route.track[0];
+  const last = route.track[route.track.length - 1];
+
+  const trackpoints = route.track.map(point => `
+        <Trackpoint>
+          <Time>${timeAt(pace ? pace.timeAt(point.distance) : 0)}</Time>
+          <Position><LatitudeDegrees>${coordinate(point.lat)}</LatitudeDegrees><LongitudeDegrees>${coordinate(point.lon)}</LongitudeDegrees></Position>
+          <AltitudeMeters>${point.ele.toFixed(1)}</AltitudeMeters>
+          <DistanceMeters>${(point.distance * 1000).toFixed(1)}</DistanceMeters>
+        </Trackpoint>`).join('');
+
+  // Course point times come from the same pacing as the trackpoints, so units trigger them at the right spot
+  const coursePoints = buildCourseMarkers(input).map(marker => `
+      <CoursePoint>
+        <Name>${marker.name}</Name>
+        <Time>${timeAt(pace ? pace.timeAt(marker.distance) : marker.time)}</Time>
+        <Position><LatitudeDegrees>${coordinate(marker.lat)}</LatitudeDegrees><LongitudeDegrees>${coordinate(marker.lon)}</LongitudeDegrees></Position>
+        <AltitudeMeters>${marker.ele.toFixed(1)}</AltitudeMeters>
+        <PointType>${marker.type}</PointType>
+        <Notes>${marker.notes}</Notes>
+      </CoursePoint>`).join('');
+
+  return `<?xml version="1.0"?>
+<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2">
+  <Courses>
+    <Course>
+      <Name>${clean(route.name, MAX_COURSE_NAME) || 'Fuel Plan'}</Name>
+      <Lap>
+        <TotalTimeSeconds>${input.durationMinutes * 60}</TotalTimeSeconds>
+        <DistanceMeters>${(route.distance * 1000).toFixed(1)}</DistanceMeters>
+        <BeginPosition><LatitudeDegrees>${coordinate(first.lat)}</LatitudeDegrees><LongitudeDegrees>${coordinate(first.lon)}</LongitudeDegrees></BeginPosition>
+        <EndPosition><LatitudeDegrees>${coordinate(last.lat)}</LatitudeDegrees><LongitudeDegrees>${coordinate(last.lon)}</LongitudeDegrees></EndPosition>
+        <Intensity>Active</Intensity>
+      </Lap>
+      <Track>${trackpoints}
+      </Track>${coursePoints}
+    </Course>
+  </Courses>
+</TrainingCenterDatabase>
+`;
+}
@@ -0,0 +1,202 @@
+/**
+ * Elevation profile geometry
+ * Lays out the route profile, climbs, aid stations and fuel alerts once, for both the on-screen chart and the printout
+ */
+
+import type { AidStation, FuelAlert, UnitSystem } from './fuelingEngine';
+import { GPXValidator } from './gpxValidator';
+import { CLIMB_CATEGORY_LABELS, interpolateTrack, type RouteData } from './routeAnalysis';
+import { createPace, type PacingPoint } from './speedModel';
+
+export interface ProfileInput {
+  route: RouteData;
+  alerts: FuelAlert[];
+  aidStations: AidStation[];
+  pacing?: PacingPoint[]; // the same pacing the fuel plan was built from
+  durationMinutes: number;
+  unitSystem: UnitSystem;
+}
+
+export interface ProfileMarker {
+  x: number;
+  y: number;
+  kind: FuelAlert['type'] | 'station';
+  distance: number; // km
+  label: string; // short text for tooltips and print
+  critical: boolean;
+}
+
+export interface ProfileGeometry {
+  width: number;
+  height: number;
+  plot: { left: number; right: number; top: number; bottom: number };
+  linePath: string;
+  areaPath: string;
+  climbs: Array<{ x: number; width: number; label: string }>;
+  stations: ProfileMarker[];
+  alerts: ProfileMarker[];
+  distanceTicks: Array<{ x: number; label: string }>;
+  elevationTicks: Array<{ y: number; label: string }>;
+  xToDistance: (x: number) => number; // km, for hover readouts
+  elevationAt: (distance: number) => number; // meters
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = { top: 24, right: 10, bottom: 24, left: 44 };
+// Long tracks are thinned to this many points so the SVG stays light enough to print
+const MAX_PATH_POINTS = 400;
+// Fuel markers float this far above the line, stacking upwards when they share a spot
+const MARKER_OFFSET = 8;
+const MARKER_STACK = 7;
+
+export const MARKER_COLORS: Record<ProfileMarker['kind'], string> = {
+  carbs: '#F59E0B',
+  electrolytes: '#A855F7',
+  fluid: '#3B82F6',
+  restock: '#F97316',
+  station: '#10B981'
+};
+
+function niceStep(range: number, targetTicks: number): number {
+  const raw = range / targetTicks;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  const normalized = raw / magnitude;
+  const step = normalized < 1.5 ? 1 : normalized < 3.5 ? 2 : normalized < 7.5 ? 5 : 10;
+  return step * magnitude;
+}
+
+/**
+ * Builds the profile geometry in SVG user units for a route and its fuel schedule
+ */
+export function buildElevationProfile(input: ProfileInput): ProfileGeometry {
+  const { route, unitSystem } = input;
+  const { track } = route;
+  const totalDistance = route.distance || 1;
+  // Reduced rather than spread, since recorded tracks can run to tens of thousands of points
+  const lowest = track.reduce((min, point) => Math.min(min, point.ele), track[0]?.ele ?? 0);
+  const highest = track.reduce((max, point) => Math.max(max, point.ele), track[0]?.ele ?? 0);
+  const minElevation = Math.floor(lowest / 50) * 50;
+  const maxElevation = Math.max(minElevation + 100, Math.ceil(highest / 50) * 50);
+  const plot = { left: PADDING.left, right: WIDTH - PADDING.right, top: PADDING.top, bottom: HEIGHT - PADDING.bottom };
+
+  const x = (distance: number) => plot.left + (distance / totalDistance) * (plot.right - plot.left);
+  const y = (elevation: number) =>
+    plot.bottom - ((elevation - minElevation) / (maxElevation - minElevation)) * (plot.bottom - plot.top);
+  const elevationAt = (distance: number) => track.length > 0 ? interpolateTrack(track, distance).ele : 0;
+
+  const stride = Math.max(1, Math.ceil(track.length / MAX_PATH_POINTS));
+  const sampled = track.filter((_, index) => index % stride === 0 || index === track.length - 1);
+  const linePath = sampled
+    .map((point, index) => `${index === 0 ? 'M' : 'L'}${x(point.distance).toFixed(1)},${y(point.ele).toFixed(1)}`)
+    .join(' ');
+  const areaPath = sampled.length > 0
+    ? `${linePath} L${x(sampled[sampled.length - 1].distance).toFixed(1)},${plot.bottom} L${x(sampled[0].distance).toFixed(1)},${plot.bottom} Z`
+    : '';
+
+  const toUnit = (km: number) => unitSystem === 'US' ? km * 0.621371 : km;
+  const distanceUnit = unitSystem === 'US' ? 'mi' : 'km';
+  const formatDistance = (km: number) => `${distanceUnit} ${toUnit(km).toFixed(1)}`;
+
+  const climbs = route.climbs.map(climb => ({
+    x: x(climb.startDistance),
+    width: Math.max(1, x(climb.endDistance) - x(climb.startDistance)),
+    label: climb.category ? CLIMB_CATEGORY_LABELS[climb.category] : ''
+  }));
+
+  const stations: ProfileMarker[] = input.aidStations.map(station => ({
+    x: x(station.distance),
+    y: plot.top,
+    kind: 'station',
+    distance: station.distance,
+    label: `${formatDistance(station.distance)} ${station.name}`,
+    critical: false
+  }));
+
+  // Alerts without a distance anchor are placed from the plan's pacing
+  const pace = createPace(input.pacing, route.distance, input.durationMinutes);
+  const stackHeights = new Map<number, number>();
+  const alerts: ProfileMarker[] = [];
+  input.alerts.forEach(alert => {
+    const distance = alert.distance ?? pace?.distanceAt(alert.time);
+    if (distance === undefined || distance < 0 || distance > totalDistance) return;
+    const column = Math.round(x(distance) / MARKER_STACK);
+    const stacked = stackHeights.get(column) ?? 0;
+    stackHeights.set(column, stacked + 1);
+    const hours = Math.floor(alert.time / 60);
+    const minutes = alert.time % 60;
+    alerts.push({
+      x: x(distance),
+      y: y(elevationAt(distance)) - MARKER_OFFSET - stacked * MARKER_STACK,
+      kind: alert.type,
+      distance,
+      label: `${hours > 0 ? `${hours}h${minutes.toString().padStart(2, '0')}` : `${minutes}m`} · ${formatDistance(distance)}: ${alert.amount}`,
+      critical: alert.priority === 'critical'
+    });
+  });
+
+  const distanceStep = niceStep(toUnit(totalDistance), 6);
+  const distanceTicks: Array<{ x: number; label: string }> = [];
+  for (let tick = 0; tick <= toUnit(totalDistance) + 1e-9; tick += distanceStep) {
+    distanceTicks.push({ x: x(unitSystem === 'US' ? tick / 0.621371 : tick), label: `${Math.round(tick)}` });
+  }
+
+  const toElevationUnit = (meters: number) => unitSystem === 'US' ? Math.round(meters * 3.28084) : Math.round(meters);
+  const elevationUnit = unitSystem === 'US' ? 'ft' : 'm';
+  const elevationTicks = [minElevation, (minElevation + maxElevation) / 2, maxElevation].map(elevation => ({
+    y: y(elevation),
+    label: `${toElevationUnit(elevation)}${elevationUnit}`
+  }));
+
+  return {
+    width: WIDTH,
+    height: HEIGHT,
+    plot,
+    linePath,
+    areaPath,
+    climbs,
+    stations,
+    alerts,
+    distanceTicks,
+    elevationTicks,
+    xToDistance: (position: number) =>
+      Math.min(totalDistance, Math.max(0, ((position - plot.left) / (plot.right - plot.left)) * totalDistance)),
+    elevationAt
+  };
+}
+
+/**
+ * Renders the profile as a standalone SVG string for the printout, in print-friendly colors
+ */
+export function renderElevationProfileSvg(geometry: ProfileGeometry): string {
+  const { plot } = geometry;
+  const text = (value: string) => GPXValidator.sanitizeText(value);
+
+  const climbs = geometry.climbs.map(climb => `
+      <rect x="${climb.x.toFixed(1)}" y="${plot.top}" width="${climb.width.toFixed(1)}" height="${plot.bottom - plot.top}" fill="#FDE68A" opacity="0.6"/>
+      ${climb.label ? `<text x="${(climb.x + climb.width / 2).toFixed(1)}" y="${plot.top - 4}" text-anchor="middle" font-size="9" font-weight="bold" fill="#B45309">${climb.label}</text>` : ''}`).join('');
+
+  const stations = geometry.stations.map(station => `
+      <line x1="${station.x.toFixed(1)}" x2="${station.x.toFixed(1)}" y1="${plot.top}" y2="${plot.bottom}" stroke="${MARKER_COLORS.station}" stroke-dasharray="3 3"/>
+      <path d="M${station.x.toFixed(1)},${plot.top} l-4,-8 h8 z" fill="${MARKER_COLORS.station}"><title>${text(station.label)}</title></path>`).join('');
+
+  const alerts = geometry.alerts.map(alert => `
+      <circle cx="${alert.x.toFixed(1)}" cy="${alert.y.toFixed(1)}" r="3" fill="${MARKER_COLORS[alert.kind]}" stroke="${alert.critical ? '#DC2626' : '#333'}" stroke-width="${alert.critical ? 1.5 : 0.5}"><title>${text(alert.label)}</title></circle>`).join('');
+
+  const distanceTicks = geometry.distanceTicks.map(tick => `
+      <text x="${tick.x.toFixed(1)}" y="${geometry.height - 8}" text-anchor="middle" font-size="9" fill="#666">${tick.label}</text>`).join('');
+
+  const elevationTicks = geometry.elevationTicks.map(tick => `
+      <line x1="${plot.left}" x2="${plot.right}" y1="${tick.y.toFixed(1)}" y2="${tick.y.toFixed(1)}" stroke="#eee"/>
+      <text x="${plot.left - 4}" y="${(tick.y + 3).toFixed(1)}" text-anchor="end" font-size="9" fill="#666">${tick.label}</text>`).join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${geometry.width} ${geometry.height}" width="100%" role="img" aria-label="Elevation profile">
+      ${elevationTicks}
+      ${climbs}
+      <path d="${geometry.areaPath}" fill="#D1D5DB"/>
+      <path d="${geometry.linePath}" fill="none" stroke="#333" stroke-width="1.5"/>
+      ${stations}
+      ${alerts}
+      ${distanceTicks}
+  </svg>`;
+}
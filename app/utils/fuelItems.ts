@@ -0,0 +1,207 @@
+/**
+ * Fuel item selection
+ * Turns the rider's preferred fuels into concrete per-alert servings from the product catalog
+ */
+
+import {
+  BUILT_IN_PRODUCTS,
+  CATEGORY_PREFERENCES,
+  CATEGORY_TEXTURES,
+  FUEL_PREFERENCES,
+  type NutritionProduct
+} from './productCatalog';
+
+export interface FuelSuggestion {
+  product: NutritionProduct;
+  servings: number;
+  carbs: number; // grams actually delivered
+  sodium: number; // mg actually delivered
+  caffeine: number; // mg actually delivered
+  fluid: number; // ml of drink, 0 for food
+  label: string; // e.g. "3 energy chews (24g)"
+  printLabel: string; // e.g. "3X CHEWS"
+}
+
+export interface ServingSummary {
+  product: NutritionProduct;
+  servings: number; // total servings to carry, rounded up to whole units
+  carbs: number; // grams across all servings
+  label: string; // e.g. "3 × 25g energy gels"
+}
+
+export interface SuggestionOptions {
+  drinkOnly?: boolean;
+  fastActing?: boolean;
+  multiTransportable?: boolean; // prefer glucose+fructose products at high carb rates
+  products?: NutritionProduct[];
+}
+
+// Used when the rider has no profile or no carb-bearing preference
+const DEFAULT_CARB_PRODUCTS = ['gel', 'drink-mix'];
+
+// Doses further than this from the target are only used when nothing fits better
+const FIT_TOLERANCE = 0.25;
+
+/**
+ * Rounds a serving count to what can actually be eaten (whole units, halves or quarter bottles)
+ */
+function roundServings(product: NutritionProduct, exact: number): number {
+  const step = product.servingStep;
+  return Math.max(step, Math.round(exact / step) * step);
+}
+
+function formatServings(servings: number): string {
+  const whole = Math.floor(servings);
+  const fraction = servings - whole;
+  const suffix = fraction >= 0.75 ? '¾' : fraction >= 0.5 ? '½' : fraction >= 0.25 ? '¼' : '';
+  return whole > 0 ? `${whole}${suffix}` : suffix;
+}
+
+function isPreferred(product: NutritionProduct, preferredFuels: string[]): boolean {
+  return !!product.custom || CATEGORY_PREFERENCES[product.category].some(pref => preferredFuels.includes(pref));
+}
+
+function describe(product: NutritionProduct, servings: number): FuelSuggestion {
+  const count = formatServings(servings);
+  const plural = servings > 1 ? 's' : '';
+  const carbs = Math.round(servings * product.carbs);
+  const sodium = Math.round(servings * product.sodium);
+  const caffeine = Math.round(servings * product.caffeine);
+  const isDrink = CATEGORY_TEXTURES[product.category] === 'liquid';
+  const fluid = isDrink ? Math.round(servings * product.volume) : 0;
+
+  let label: string;
+  if (product.category === 'drink-mix') {
+    label = `${fluid}ml ${product.name} (${carbs}g)`;
+  } else if (product.carbs > 0) {
+    label = `${count} ${product.name}${plural} (${carbs}g)`;
+  } else {
+    label = `${count} ${product.servingUnit}${plural} (${sodium}mg sodium)`;
+  }
+  if (caffeine > 0) {
+    label += ` +${caffeine}mg caffeine`;
+  }
+
+  return {
+    product,
+    servings,
+    carbs,
+    sodium,
+    caffeine,
+    fluid,
+    label,
+    printLabel: servings === 1 ? product.printLabel : `${count}${servings < 1 ? ' ' : 'X '}${product.printLabel}`
+  };
+}
+
+/**
+ * Candidate carb products from the rider's preferences, falling back to gels and drink mix
+ */
+function getCarbProducts(preferredFuels: string[], options: SuggestionOptions): NutritionProduct[] {
+  const catalog = options.products || BUILT_IN_PRODUCTS;
+  // Caffeine is a deliberate choice, so caffeinated products are only used when added by the rider
+  const carbProducts = catalog.filter(product => product.carbs > 0 && (product.caffeine === 0 || product.custom));
+
+  let products = carbProducts.filter(product => isPreferred(product, preferredFuels));
+  if (products.length === 0) {
+    products = carbProducts.filter(product => DEFAULT_CARB_PRODUCTS.includes(product.id));
+  }
+
+  if (options.drinkOnly) {
+    const liquids = products.filter(product => CATEGORY_TEXTURES[product.category] === 'liquid');
+    return liquids.length > 0 ? liquids : carbProducts.filter(product => product.category === 'drink-mix');
+  }
+
+  // Pre-climb top-ups should be quick to digest, so skip solid food when anything else is available
+  if (options.fastActing) {
+    const fast = products.filter(product => CATEGORY_TEXTURES[product.category] !== 'solid');
+    if (fast.length > 0) return fast;
+  }
+
+  // Above ~60g/h glucose alone saturates gut transport, so lean on glucose+fructose blends
+  if (options.multiTransportable) {
+    const blends = products.filter(product => (product.fructoseRatio ?? 0) >= 0.5);
+    if (blends.length > 0) return blends;
+  }
+
+  return products;
+}
+
+/**
+ * Picks a product for a carb dose, preferring a close fit and rotating textures across alerts
+ */
+export function suggestCarbItem(
+  dose: number,
+  preferredFuels: string[],
+  alertIndex: number,
+  options: SuggestionOptions = {}
+): FuelSuggestion {
+  const candidates = getCarbProducts(preferredFuels, options)
+    .map(product => {
+      const servings = roundServings(product, dose / product.carbs);
+      return { product, servings, error: Math.abs(servings * product.carbs - dose) / dose };
+    })
+    .sort((a, b) => a.error - b.error);
+
+  const fitting = candidates.filter(candidate => candidate.error <= FIT_TOLERANCE);
+  const pool = fitting.length > 0 ? fitting : candidates.slice(0, 1);
+
+  // Rotate through the available textures so long rides alternate sweet gels with chews or food
+  const textures = Array.from(new Set(pool.map(candidate => CATEGORY_TEXTURES[candidate.product.category])));
+  const texture = textures[alertIndex % textures.length];
+  const choice = pool.find(candidate => CATEGORY_TEXTURES[candidate.product.category] === texture) || pool[0];
+
+  return describe(choice.product, choice.servings);
+}
+
+/**
+ * Picks a product for an electrolyte dose: tabs if preferred, otherwise drink mix
+ */
+export function suggestElectrolyteItem(
+  sodium: number,
+  preferredFuels: string[],
+  products: NutritionProduct[] = BUILT_IN_PRODUCTS
+): FuelSuggestion {
+  const prefersDrink = preferredFuels.includes(FUEL_PREFERENCES.drinks) && !preferredFuels.includes(FUEL_PREFERENCES.tabs);
+  const category = prefersDrink ? 'drink-mix' : 'electrolyte';
+  const candidates = products.filter(product => product.category === category && product.sodium > 0);
+
+  // Custom electrolyte products win over the generic ones
+  const product = candidates.find(candidate => candidate.custom) ||
+    candidates[0] ||
+    BUILT_IN_PRODUCTS.find(candidate => candidate.id === 'electrolyte-tab') as NutritionProduct;
+
+  return describe(product, roundServings(product, sodium / product.sodium));
+}
+
+/**
+ * Totals the servings of each product across a schedule, e.g. "3 × 25g energy gels"
+ */
+export function summarizeServings(suggestions: FuelSuggestion[]): ServingSummary[] {
+  const totals = new Map<string, { product: NutritionProduct; servings: number }>();
+
+  suggestions.forEach(suggestion => {
+    const entry = totals.get(suggestion.product.id);
+    if (entry) {
+      entry.servings += suggestion.servings;
+    } else {
+      totals.set(suggestion.product.id, { product: suggestion.product, servings: suggestion.servings });
+    }
+  });
+
+  return Array.from(totals.values()).map(({ product, servings }) => {
+    const units = Math.ceil(servings);
+    const plural = units > 1 ? 's' : '';
+    let label: string;
+
+    if (product.category === 'drink-mix') {
+      label = `${units} ${product.servingUnit}${plural} of ${product.carbs}g ${product.name}`;
+    } else if (product.carbs > 0) {
+      label = `${units} × ${product.carbs}g ${product.name}${plural}`;
+    } else {
+      label = `${units} × ${product.sodium}mg ${product.name}${plural}`;
+    }
+
+    return { product, servings: units, carbs: Math.round(servings * product.carbs), label };
+  });
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { planFueling, type FuelingInput } from './fuelingEngine';
+
+const baseInput: FuelingInput = {
+  ride: { durationMinutes: 180, intensity: 'moderate' },
+  profile: null,
+  weather: { temperature: 70, humidity: 50 },
+  route: null,
+  unitSystem: 'UK'
+};
+
+const plan = (ride: Partial<FuelingInput['ride']>, overrides: Partial<FuelingInput> = {}) =>
+  planFueling({ ...baseInput, ...overrides, ride: { ...baseInput.ride, ...ride } });
+
+describe('planFueling', () => {
+  it('schedules no carbs or electrolytes for rides under an hour', () => {
+    const { alerts, carbRate, sodiumRate, totals } = plan({ durationMinutes: 45, intensity: 'hard' });
+    expect(alerts).toEqual([]);
+    expect(carbRate).toBe(0);
+    expect(sodiumRate).toBe(0);
+    expect(totals.carbs).toBe(0);
+  });
+
+  it('spaces carb intakes at the strategy interval from the start time', () => {
+    const moderate = plan({}).alerts.filter(alert => alert.type === 'carbs');
+    expect(moderate.map(alert => alert.time)).toEqual([60, 85, 110, 135, 160]);
+    expect(moderate[0].rationale).toMatch(/every 25 min$/);
+
+    const hard = plan({ durationMinutes: 120, intensity: 'hard' }).alerts.filter(alert => alert.type === 'carbs');
+    expect(hard.map(alert => alert.time)).toEqual([45, 65, 85, 105]);
+  });
+
+  it('keeps every alert inside the ride', () => {
+    const { alerts } = plan({ durationMinutes: 240, intensity: 'hard' });
+    alerts.forEach(alert => {
+      expect(alert.time).toBeGreaterThan(0);
+      expect(alert.time).toBeLessThan(240);
+    });
+  });
+
+  it('puts drink reminders on the half hour in 50ml steps', () => {
+    const reminders = plan({}).alerts.filter(alert => alert.type === 'fluid' && alert.amount.startsWith('Drink'));
+    expect(reminders.length).toBeGreaterThan(0);
+    reminders.forEach(alert => {
+      expect(alert.time % 30).toBe(0);
+      expect(alert.fluid % 50).toBe(0);
+    });
+  });
+
+  it('totals the carbs of the scheduled alerts', () => {
+    const { alerts, totals } = plan({});
+    expect(totals.carbs).toBe(alerts.reduce((sum, alert) => sum + alert.carbs, 0));
+  });
+
+  it('scales hourly rates to body mass and rounds them to whole units', () => {
+    const light = plan({}, { profile: { weight: 110 } as FuelingInput['profile'] });
+    expect(light.bodyMass).toBe(49.9);
+    // 60g/h for the 70kg reference rider
+    expect(light.carbRate).toBe(Math.round((60 / 70) * 49.9));
+    expect(Number.isInteger(light.fluidRate)).toBe(true);
+  });
+
+  it('caps scaled rates for very heavy riders', () => {
+    const heavy = plan({ intensity: 'hard' }, { profile: { weight: 330 } as FuelingInput['profile'] });
+    expect(heavy.carbRate).toBe(90);
+    expect(heavy.fluidRate).toBeLessThanOrEqual(1000);
+  });
+
+  it('states the sodium of each electrolyte dose rather than the hourly rate', () => {
+    const hot = plan({ durationMinutes: 240 }, { weather: { temperature: 95, humidity: 70 } });
+    const doses = hot.alerts.filter(alert => alert.type === 'electrolytes');
+    expect(doses.length).toBeGreaterThan(0);
+    doses.forEach(alert => expect(alert.amount.startsWith(`${alert.sodium}mg sodium`)).toBe(true));
+  });
+});
@@ -0,0 +1,1019 @@
+/**
+ * Evidence-based fueling engine
+ * Pure planning logic shared by the homepage, the print view and any server-side consumer
+ */
+
+import {
+  suggestCarbItem,
+  suggestElectrolyteItem,
+  summarizeServings,
+  type FuelSuggestion,
+  type ServingSummary
+} from './fuelItems';
+import { BUILT_IN_PRODUCTS, type NutritionProduct } from './productCatalog';
+import { resolveEffort, type IntensityTarget, type RideEffort } from './intensityModel';
+import { projectGlycogen, type GlycogenProjection, type PreRideMeal } from './glycogenModel';
+import type { AidStation, Climb, Descent, RouteData } from './routeAnalysis';
+import { createPace, type PacingPoint, type RidePace } from './speedModel';
+
+export type { AidStation, RouteData } from './routeAnalysis';
+
+export type RideIntensity = 'casual' | 'moderate' | 'hard';
+
+// Survey intensity to ride intensity; 'mixed' rides are planned as segments
+export const PROFILE_INTENSITY: Record<NutritionProfile['intensity'], RideIntensity | 'mixed'> = {
+  easy: 'casual',
+  moderate: 'moderate',
+  hard: 'hard',
+  mixed: 'mixed'
+};
+export type UnitSystem = 'US' | 'UK';
+
+export interface NutritionProfile {
+  weight: number;
+  sweatRate: 'light' | 'moderate' | 'heavy';
+  intensity: 'easy' | 'moderate' | 'hard' | 'mixed';
+  giSensitivity: 'sensitive' | 'normal' | 'tolerant';
+  previousIssues: string[];
+  preferredFuels: string[];
+  experienceLevel: 'beginner' | 'intermediate' | 'advanced';
+  name: string;
+  ftp?: number; // watts
+  maxHr?: number; // bpm
+  thresholdHr?: number; // bpm
+}
+
+export interface RideSegment {
+  label: string; // e.g. "Warm-up"
+  durationMinutes: number;
+  intensity: RideIntensity;
+}
+
+export interface SegmentPlan {
+  label: string;
+  start: number; // minutes
+  end: number; // minutes
+  intensity: RideIntensity;
+  carbRate: number; // g/hour
+  carbInterval: number; // minutes between intakes, 0 when no carbs are needed
+}
+
+export interface FuelAlert {
+  time: number; // minutes
+  distance?: number; // km - route-anchored alerts (climbs, aid stations) are due here whatever the pace
+  type: 'carbs' | 'electrolytes' | 'fluid' | 'restock'; // restock: buy food at an aid station, nothing eaten
+  amount: string;
+  priority: 'normal' | 'critical';
+  carbs: number; // grams
+  fluid: number; // ml
+  sodium: number; // mg
+  rationale: string;
+  adjustments: string[]; // profile-driven changes, shown alongside the alert
+  item: FuelSuggestion | null; // concrete item from the rider's preferred fuels
+  fluidRemaining?: number; // ml left across all bottles after this alert
+  station?: AidStation; // set on refill/restock alerts tied to an aid station
+}
+
+export interface BottleSetup {
+  count: number;
+  capacity: number; // ml per bottle
+}
+
+export interface RefillPoint {
+  time: number; // minutes - bottles run dry at this point without a refill
+  distance: number | null; // km, when the ride distance is known
+  volume: number; // ml needed to top all bottles back up
+  station: AidStation | null; // where to refill, when the route has aid stations
+}
+
+export interface RestockPoint {
+  time: number; // minutes
+  station: AidStation;
+  servings: ServingSummary[]; // food to buy here for the next leg
+}
+
+export interface ClimbPlan {
+  climb: Climb;
+  startTime: number; // minutes
+  minutes: number; // estimated time on the climb at the ride's pacing
+  carbs: number; // grams taken on the climb at the planned carb rate
+  note: string; // per-climb fueling advice
+}
+
+export interface FuelingInput {
+  ride: {
+    durationMinutes: number;
+    intensity: RideIntensity;
+    target?: IntensityTarget | null; // power, heart rate or zone - overrides the intensity bucket
+    segments?: RideSegment[]; // ridden back to back; the last one runs to the end of the ride
+    pacing?: PacingPoint[]; // modelled time at distance (e.g. wind-aware), otherwise even pacing
+    distanceKm?: number | null;
+    preRideMeal?: PreRideMeal; // defaults to a normal carb breakfast
+  };
+  profile: NutritionProfile | null;
+  weather: {
+    temperature: number; // Fahrenheit
+    humidity: number; // Percentage
+  };
+  route: RouteData | null;
+  unitSystem: UnitSystem;
+  products?: NutritionProduct[]; // defaults to the built-in catalog
+  bottles?: BottleSetup; // defaults to 2 × 750ml
+  aidStations?: AidStation[]; // defaults to the route's waypoints
+}
+
+export interface FuelPlan {
+  alerts: FuelAlert[];
+  bodyMass: number; // kg used for scaling
+  carbRate: number; // g/hour
+  sodiumRate: number; // mg/hour
+  fluidRate: number; // ml/hour
+  totals: {
+    carbs: number; // grams
+    fluid: number; // ml
+    sodium: number; // mg
+    caffeine: number; // mg
+  };
+  servings: ServingSummary[]; // what to carry from the start, per product
+  restocks: RestockPoint[];
+  glycogen: GlycogenProjection; // estimated stores over the ride with this schedule
+  effort: RideEffort | null; // energy and carb oxidation when a power/heart-rate target is set
+  segments: SegmentPlan[]; // per-segment rates for mixed rides, empty otherwise
+  climbs: ClimbPlan[]; // timing and fueling notes for each climb on the route
+  hydration: {
+    bottles: BottleSetup;
+    carried: number; // ml carried at the start
+    fluidReason: string;
+    refills: RefillPoint[];
+  };
+}
+
+// Baseline fluid intake used for plan totals (~600ml per hour)
+const BASE_FLUID_RATE = 600;
+
+// Drink reminders every 30 minutes, sipping steadily in between
+const FLUID_INTERVAL = 30;
+
+const DEFAULT_BOTTLES: BottleSetup = { count: 2, capacity: 750 };
+
+// Intensity bands below are calibrated for a 70kg rider and scaled per kg from there
+const REFERENCE_MASS_KG = 70;
+const LBS_TO_KG = 0.453592;
+
+// Hourly floors/ceilings so very light or very heavy riders stay within practical limits
+const CARB_LIMITS = { floor: 15, ceiling: 90 }; // g/hour (90g needs multi-transportable carbs)
+const FLUID_LIMITS = { floor: 400, ceiling: 1000 }; // ml/hour
+const SODIUM_LIMITS = { floor: 200, ceiling: 1000 }; // mg/hour
+
+// Share of oxidised carbohydrate to replace when fueling from a power/heart-rate target;
+// the rest comes from glycogen stores, since the gut cannot absorb the full burn rate
+const CARB_REPLACEMENT = 0.55;
+const TARGET_DOSE = 25; // grams per intake when the interval is derived from the rate
+const EFFORT_MIN_DURATION: Record<RideIntensity, number> = { casual: 90, moderate: 75, hard: 60 };
+
+// Climbs this long are fuelled on the way up rather than only before the base
+const LONG_CLIMB_MINUTES = 20;
+// Above this grade riders need both hands on the bars, so food goes in before the steep part
+const STEEP_GRADE = 10;
+// Moved alerts land this far onto the flat either side of a descent
+const DESCENT_CLEARANCE_KM = 0.2;
+
+// Survey answers (see app/survey/page.tsx) that change how the plan is shaped
+const GI_ISSUES = ['Nausea during rides', 'Stomach cramping'];
+const BONK_ISSUES = ['Bonking/hitting the wall', 'Energy crashes'];
+const CRAMP_ISSUES = ['Muscle cramps'];
+
+interface CarbPhase {
+  label: string | null;
+  start: number;
+  end: number;
+  intensity: RideIntensity;
+  strategy: CarbStrategy;
+  carbRate: number; // g/hour after mass scaling
+  carbScaling: string;
+}
+
+interface TimedStation {
+  station: AidStation;
+  time: number; // minutes from the start
+}
+
+interface RateLimits {
+  floor: number;
+  ceiling: number;
+}
+
+interface CarbStrategy {
+  carbRate: number; // g/hour
+  startTime: number | null; // minutes
+  carbInterval: number; // minutes between carb intakes
+  reason: string;
+}
+
+interface ElectrolyteStrategy {
+  electrolyteRate: number; // mg sodium per hour
+  electrolyteInterval: number; // minutes between electrolyte intake
+  reason: string;
+}
+
+interface ProfileAdjustments {
+  doseFactor: number; // scales carb interval and dose size together (0.5 = half doses twice as often)
+  drinkBasedCarbs: boolean;
+  startOffset: number; // minutes to bring the first carb intake forward
+  startNote: string | null;
+  extraSodium: number; // mg/hour added for the reference rider before mass scaling
+  carbNotes: string[];
+  sodiumNotes: string[];
+}
+
+/**
+ * Translates GI sensitivity and previous fueling issues into schedule adjustments
+ */
+function getProfileAdjustments(profile: NutritionProfile | null): ProfileAdjustments {
+  const adjustments: ProfileAdjustments = {
+    doseFactor: 1,
+    drinkBasedCarbs: false,
+    startOffset: 0,
+    startNote: null,
+    extraSodium: 0,
+    carbNotes: [],
+    sodiumNotes: []
+  };
+  if (!profile) return adjustments;
+
+  const issues = profile.previousIssues || [];
+  const hasIssue = (candidates: string[]) => candidates.some(issue => issues.includes(issue));
+
+  // Sensitive stomachs tolerate small, frequent, liquid doses better than big solid ones
+  if (profile.giSensitivity === 'sensitive') {
+    adjustments.doseFactor = 0.5;
+    adjustments.drinkBasedCarbs = true;
+    adjustments.carbNotes.push('Sensitive stomach: half-size doses twice as often, taken as drink');
+  } else if (hasIssue(GI_ISSUES)) {
+    adjustments.doseFactor = 0.75;
+    adjustments.drinkBasedCarbs = true;
+    adjustments.carbNotes.push('History of nausea/stomach cramping: smaller, more frequent drink-based doses');
+  }
+
+  // Riders who have bonked before start fueling before glycogen runs low
+  if (hasIssue(BONK_ISSUES)) {
+    adjustments.startOffset = 15;
+    adjustments.startNote = 'Bonking history: first intake 15 min earlier';
+  }
+
+  // Cramp-prone riders get extra sodium on top of the sweat/heat baseline
+  if (hasIssue(CRAMP_ISSUES)) {
+    adjustments.extraSodium = 200;
+    adjustments.sodiumNotes.push('Muscle cramp history: +200mg sodium/hour');
+  }
+
+  return adjustments;
+}
+
+/**
+ * Determines carb intake rate based on intensity + duration
+ */
+function getCarbStrategy(intensity: RideIntensity, durationMinutes: number): CarbStrategy {
+  const none: CarbStrategy = { carbRate: 0, startTime: null, carbInterval: 0, reason: '' };
+
+  if (intensity === 'casual') {
+    // Zone 2 - mostly fat-fueled
+    if (durationMinutes < 90) return none;
+    if (durationMinutes < 150) {
+      return { carbRate: 20, startTime: 75, carbInterval: 60, reason: 'Casual ride 90-150 min, fueling from 75 min' };
+    }
+    // Slightly more frequent for long rides
+    return { carbRate: 30, startTime: 75, carbInterval: 50, reason: 'Casual ride 150+ min, fueling from 75 min' };
+  }
+
+  if (intensity === 'moderate') {
+    // Zone 3 - balanced fat/carb
+    if (durationMinutes < 75) return none;
+    if (durationMinutes < 90) {
+      return { carbRate: 25, startTime: 60, carbInterval: 60, reason: 'Moderate ride 75-90 min, fueling from 60 min' };
+    }
+    if (durationMinutes < 150) {
+      return { carbRate: 45, startTime: 60, carbInterval: 35, reason: 'Moderate ride 90-150 min, fueling from 60 min' };
+    }
+    return { carbRate: 60, startTime: 60, carbInterval: 25, reason: 'Moderate ride 150+ min, fueling from 60 min' };
+  }
+
+  // Zone 4-5 - high carb oxidation
+  if (durationMinutes < 60) return none;
+  if (durationMinutes < 90) {
+    return { carbRate: 50, startTime: 45, carbInterval: 30, reason: 'Hard ride 60-90 min, fueling from 45 min' };
+  }
+  return { carbRate: 70, startTime: 45, carbInterval: 20, reason: 'Hard ride 90+ min, fueling from 45 min' };
+}
+
+/**
+ * Determines carb intake rate from carbohydrate oxidation at a power or heart-rate target
+ */
+function getEffortCarbStrategy(effort: RideEffort, durationMinutes: number): CarbStrategy {
+  if (durationMinutes < EFFORT_MIN_DURATION[effort.intensity]) {
+    return { carbRate: 0, startTime: null, carbInterval: 0, reason: '' };
+  }
+
+  const startTime = effort.intensityFactor >= 0.85 ? 45 : effort.intensityFactor >= 0.7 ? 60 : 75;
+  // Shorter rides lean more on stored glycogen
+  const replacement = durationMinutes < 90 ? CARB_REPLACEMENT * 0.6 : CARB_REPLACEMENT;
+  const carbRate = Math.round(effort.carbOxidation * replacement);
+  const carbInterval = Math.min(60, Math.max(15, Math.round((60 * TARGET_DOSE) / Math.max(1, carbRate))));
+
+  return {
+    carbRate,
+    startTime,
+    carbInterval,
+    reason: `${effort.description}; replace ${Math.round(replacement * 100)}%, fueling from ${startTime} min`
+  };
+}
+
+/**
+ * Lays segments end to end over the ride; the last segment stretches or is cut to the ride duration
+ */
+function getSegmentWindows(
+  segments: RideSegment[],
+  durationMinutes: number
+): Array<{ label: string; start: number; end: number; intensity: RideIntensity }> {
+  const windows: Array<{ label: string; start: number; end: number; intensity: RideIntensity }> = [];
+  let start = 0;
+
+  segments.forEach((segment, index) => {
+    if (start >= durationMinutes) return;
+    const isLast = index === segments.length - 1;
+    const end = isLast ? durationMinutes : Math.min(durationMinutes, start + Math.max(0, segment.durationMinutes));
+    if (end > start) {
+      windows.push({ label: segment.label, start, end, intensity: segment.intensity });
+    }
+    start = end;
+  });
+
+  return windows;
+}
+
+/**
+ * Time-weighted intensity of a segmented ride, for the rules that need a single bucket
+ */
+function getOverallIntensity(windows: Array<{ start: number; end: number; intensity: RideIntensity }>): RideIntensity {
+  const levels: RideIntensity[] = ['casual', 'moderate', 'hard'];
+  const total = windows.reduce((sum, window) => sum + (window.end - window.start), 0);
+  const weighted = windows.reduce(
+    (sum, window) => sum + levels.indexOf(window.intensity) * (window.end - window.start),
+    0
+  );
+  return levels[Math.round(weighted / total)];
+}
+
+/**
+ * Determines electrolyte needs (evidence-based thresholds)
+ */
+function getElectrolyteStrategy(
+  durationMinutes: number,
+  temperature: number,
+  sweatRate: NutritionProfile['sweatRate'] | undefined
+): ElectrolyteStrategy | null {
+  // Electrolytes only needed for rides 60+ minutes with heat/sweat
+  if (durationMinutes >= 90) {
+    if (temperature > 80 || sweatRate === 'heavy') {
+      return {
+        electrolyteRate: 500,
+        electrolyteInterval: 60,
+        reason: temperature > 80 ? 'Hot conditions (>80°F) on a 90+ min ride' : 'Heavy sweater on a 90+ min ride'
+      };
+    }
+    if (temperature > 75 || sweatRate === 'moderate') {
+      return {
+        electrolyteRate: 300,
+        electrolyteInterval: 75,
+        reason: temperature > 75 ? 'Warm conditions (>75°F) on a 90+ min ride' : 'Moderate sweater on a 90+ min ride'
+      };
+    }
+  } else if (durationMinutes >= 60) {
+    // Only for hot conditions on shorter rides
+    if (temperature > 85 || sweatRate === 'heavy') {
+      return {
+        electrolyteRate: 400,
+        electrolyteInterval: 60,
+        reason: temperature > 85 ? 'Very hot conditions (>85°F)' : 'Heavy sweater'
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Rider mass in kg from the survey weight (lbs), falling back to the reference rider
+ */
+export function getBodyMass(profile: NutritionProfile | null): number {
+  if (!profile || !profile.weight || profile.weight <= 0) return REFERENCE_MASS_KG;
+  return Math.round(profile.weight * LBS_TO_KG * 10) / 10;
+}
+
+/**
+ * Converts a reference-rider hourly rate to a per-kg rate and applies it to the rider's mass
+ */
+function scaleToMass(baseRate: number, massKg: number, limits: RateLimits): number {
+  if (baseRate <= 0) return 0;
+  const perKg = baseRate / REFERENCE_MASS_KG;
+  return Math.round(Math.min(limits.ceiling, Math.max(limits.floor, perKg * massKg)));
+}
+
+/**
+ * Explains how body weight changed an hourly target, e.g. "0.64g/kg/h × 55kg = 35g/h (45g/h at 70kg)"
+ */
+function describeScaling(baseRate: number, scaledRate: number, massKg: number, unit: string): string {
+  const perKg = baseRate / REFERENCE_MASS_KG;
+  const perKgDisplay = perKg >= 10 ? Math.round(perKg).toString() : perKg.toFixed(2);
+  const clamped = Math.round(perKg * massKg) !== scaledRate ? ', capped' : '';
+  return `${perKgDisplay}${unit}/kg/h × ${massKg}kg = ${scaledRate}${unit}/h${clamped} (${baseRate}${unit}/h at ${REFERENCE_MASS_KG}kg)`;
+}
+
+/**
+ * Hourly fluid target for the reference rider from temperature, humidity, sweat rate and intensity
+ */
+function getFluidStrategy(
+  temperature: number,
+  humidity: number,
+  sweatRate: NutritionProfile['sweatRate'] | undefined,
+  intensity: RideIntensity
+): { fluidRate: number; reason: string } {
+  let factor = 1;
+  const reasons: string[] = [];
+
+  if (temperature > 85) {
+    factor *= 1.4;
+    reasons.push('very hot (>85°F) +40%');
+  } else if (temperature > 75) {
+    factor *= 1.2;
+    reasons.push('warm (>75°F) +20%');
+  } else if (temperature < 60) {
+    factor *= 0.8;
+    reasons.push('cool (<60°F) -20%');
+  }
+
+  // Humid air slows evaporative cooling, so more sweat is lost for the same heat load
+  if (humidity > 70 && temperature > 65) {
+    factor *= 1.1;
+    reasons.push(`humid (${humidity}%) +10%`);
+  }
+
+  if (sweatRate === 'heavy') {
+    factor *= 1.25;
+    reasons.push('heavy sweater +25%');
+  } else if (sweatRate === 'light') {
+    factor *= 0.85;
+    reasons.push('light sweater -15%');
+  }
+
+  if (intensity === 'hard') {
+    factor *= 1.15;
+    reasons.push('hard intensity +15%');
+  } else if (intensity === 'casual') {
+    factor *= 0.9;
+    reasons.push('casual intensity -10%');
+  }
+
+  return {
+    fluidRate: Math.round(BASE_FLUID_RATE * factor),
+    reason: reasons.length > 0 ? reasons.join(', ') : 'Baseline conditions'
+  };
+}
+
+function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
+}
+
+function formatDistance(km: number, unitSystem: UnitSystem): string {
+  return unitSystem === 'US' ? `mile ${Math.round(km * 0.621371)}` : `km ${Math.round(km)}`;
+}
+
+function describeBottles(count: number): string {
+  if (count === 1) return 'bottle';
+  return count === 2 ? 'both bottles' : `all ${count} bottles`;
+}
+
+function describeStation(station: AidStation, unitSystem: UnitSystem): string {
+  return `${formatDistance(station.distance, unitSystem)} ${station.name}`;
+}
+
+/**
+ * Times each climb from the ride's pacing and writes a short fueling note for it
+ */
+function planClimbs(climbs: Climb[], pace: RidePace, getCarbRate: (time: number) => number): ClimbPlan[] {
+  return climbs.map(climb => {
+    const startTime = Math.round(pace.timeAt(climb.startDistance));
+    const carbRate = getCarbRate(startTime);
+    const minutes = Math.max(1, Math.round(pace.timeAt(climb.endDistance) - pace.timeAt(climb.startDistance)));
+    const carbs = Math.round((carbRate * minutes) / 60);
+    const long = minutes >= LONG_CLIMB_MINUTES || climb.category === 'HC' || climb.category === '1';
+
+    let note: string;
+    if (carbRate === 0) {
+      note = 'No fueling needed on a ride this short - drink before the base';
+    } else if (long) {
+      note = `Eat before the base, then take ~${carbs}g on the way up`;
+    } else if (climb.category || climb.elevationGain > 100) {
+      note = 'Top up 15 min before the base and sip drink mix on the climb';
+    } else {
+      note = 'Short effort - stick to the normal schedule';
+    }
+    if (carbRate > 0 && climb.maxGrade >= STEEP_GRADE) {
+      note += `; eat before the ${Math.round(climb.maxGrade)}% ramp, not on it`;
+    }
+
+    return { climb, startTime, minutes, carbs, note };
+  });
+}
+
+/**
+ * Descents too fast or technical to eat or drink on
+ */
+function getAvoidedDescents(route: RouteData): Descent[] {
+  return route.descents.filter(descent => descent.fast || descent.technical);
+}
+
+function findDescent(descents: Descent[], distance: number): Descent | undefined {
+  return descents.find(descent => distance > descent.startDistance && distance < descent.endDistance);
+}
+
+function describeDescent(descent: Descent, unitSystem: UnitSystem): string {
+  const span = unitSystem === 'US'
+    ? `mile ${Math.round(descent.startDistance * 0.621371)}-${Math.round(descent.endDistance * 0.621371)}`
+    : `km ${Math.round(descent.startDistance)}-${Math.round(descent.endDistance)}`;
+  return `${descent.technical ? 'technical' : 'fast'} ${span} descent`;
+}
+
+/**
+ * Moves alerts that fall on a fast or technical descent to the flat just before or after it,
+ * whichever is closer in time
+ */
+function moveOffDescents(
+  alerts: FuelAlert[],
+  descents: Descent[],
+  pace: RidePace,
+  durationMinutes: number,
+  unitSystem: UnitSystem
+): FuelAlert[] {
+  if (descents.length === 0) return alerts;
+
+  return alerts.map(alert => {
+    const descent = findDescent(descents, alert.distance ?? pace.distanceAt(alert.time));
+    if (!descent) return alert;
+
+    const beforeDistance = Math.max(0, descent.startDistance - DESCENT_CLEARANCE_KM);
+    const afterDistance = descent.endDistance + DESCENT_CLEARANCE_KM;
+    const beforeTime = Math.round(pace.timeAt(beforeDistance));
+    const afterTime = Math.round(pace.timeAt(afterDistance));
+    const useBefore = afterTime >= durationMinutes ||
+      (beforeTime > 0 && alert.time - beforeTime <= afterTime - alert.time);
+    const time = useBefore ? beforeTime : afterTime;
+    if (time <= 0 || time >= durationMinutes) return alert;
+
+    return {
+      ...alert,
+      time,
+      ...(alert.distance !== undefined && {
+        distance: Math.round((useBefore ? beforeDistance : afterDistance) * 10) / 10
+      }),
+      adjustments: [...alert.adjustments, `Moved ${useBefore ? 'before' : 'after'} the ${describeDescent(descent, unitSystem)}`]
+    };
+  });
+}
+
+/**
+ * Walks the schedule draining the bottles and inserts refill alerts where they would run dry.
+ * With aid stations on the route, bottles are topped up at the last stop before they run out.
+ */
+function planRefills(
+  alerts: FuelAlert[],
+  bottles: BottleSetup,
+  stops: TimedStation[],
+  pace: RidePace | null,
+  unitSystem: UnitSystem
+): { alerts: FuelAlert[]; refills: RefillPoint[] } {
+  const carried = bottles.count * bottles.capacity;
+  const refills: RefillPoint[] = [];
+  const result: FuelAlert[] = [];
+  let remaining = carried;
+  let stopIndex = 0;
+
+  alerts.forEach((alert, index) => {
+    // Stops reached before this alert: refill only if the bottles won't last to the next one
+    while (stopIndex < stops.length && stops[stopIndex].time <= alert.time) {
+      const { station, time } = stops[stopIndex++];
+      const nextTime = stopIndex < stops.length ? stops[stopIndex].time : Infinity;
+      const needed = alerts
+        .slice(index)
+        .filter(upcoming => upcoming.time < nextTime)
+        .reduce((sum, upcoming) => sum + upcoming.fluid, 0);
+
+      if (needed > remaining) {
+        const volume = carried - remaining;
+        refills.push({ time, distance: station.distance, volume, station });
+
+        result.push({
+          time,
+          type: 'fluid',
+          amount: `Refill ${describeBottles(bottles.count)} at ${describeStation(station, unitSystem)} (+${volume}ml)`,
+          priority: 'critical',
+          carbs: 0,
+          fluid: 0,
+          sodium: 0,
+          rationale: `${needed}ml planned before the ${nextTime === Infinity ? 'finish' : 'next stop'}, ${remaining}ml left`,
+          adjustments: [],
+          item: null,
+          fluidRemaining: carried,
+          station,
+          distance: station.distance
+        });
+        remaining = carried;
+      }
+    }
+
+    if (alert.fluid > remaining) {
+      const distance = pace ? Math.round(pace.distanceAt(alert.time) * 10) / 10 : null;
+      const volume = carried - remaining;
+      const where = distance !== null ? ` / ${formatDistance(distance, unitSystem)}` : '';
+      refills.push({ time: alert.time, distance, volume, station: null });
+
+      result.push({
+        time: alert.time,
+        type: 'fluid',
+        amount: `Refill bottles (+${volume}ml) - needed by ${formatMinutes(alert.time)}${where}`,
+        priority: 'critical',
+        carbs: 0,
+        fluid: 0,
+        sodium: 0,
+        rationale: stops.length > 0
+          ? `${bottles.count} × ${bottles.capacity}ml bottles run dry between aid stations`
+          : `${bottles.count} × ${bottles.capacity}ml bottles run dry here`,
+        adjustments: [],
+        item: null,
+        fluidRemaining: carried
+      });
+      remaining = carried;
+    }
+
+    remaining = Math.max(0, remaining - alert.fluid);
+    result.push({ ...alert, fluidRemaining: remaining });
+  });
+
+  return { alerts: result, refills };
+}
+
+/**
+ * Splits food between what is carried from the start and what is bought at each food stop.
+ * Drink mix and electrolytes are always carried, since stops rarely stock them.
+ */
+function planRestocks(
+  alerts: FuelAlert[],
+  stops: TimedStation[],
+  unitSystem: UnitSystem
+): { carried: FuelSuggestion[]; restocks: RestockPoint[]; restockAlerts: FuelAlert[] } {
+  const foodStops = stops.filter(stop => stop.station.type !== 'water');
+  const carried: FuelSuggestion[] = [];
+  const bought = new Map<string, FuelSuggestion[]>();
+
+  alerts.forEach(alert => {
+    if (!alert.item) return;
+    const buyable = alert.type === 'carbs' && alert.item.product.category !== 'drink-mix';
+    const stop = buyable ? foodStops.filter(candidate => candidate.time <= alert.time).pop() : undefined;
+
+    if (stop) {
+      bought.set(stop.station.id, [...(bought.get(stop.station.id) || []), alert.item]);
+    } else {
+      carried.push(alert.item);
+    }
+  });
+
+  const restocks: RestockPoint[] = [];
+  const restockAlerts: FuelAlert[] = [];
+  foodStops.forEach(({ station, time }) => {
+    const items = bought.get(station.id);
+    if (!items) return;
+
+    const servings = summarizeServings(items);
+    restocks.push({ time, station, servings });
+    restockAlerts.push({
+      time,
+      type: 'restock',
+      amount: `Restock at ${describeStation(station, unitSystem)}: ${servings.map(serving => serving.label).join(', ')}`,
+      priority: 'normal',
+      carbs: 0,
+      fluid: 0,
+      sodium: 0,
+      rationale: 'Covers the carbs planned until the next food stop',
+      adjustments: [],
+      item: null,
+      station,
+      distance: station.distance
+    });
+  });
+
+  return { carried, restocks, restockAlerts };
+}
+
+/**
+ * Builds a complete fueling plan from explicit ride, profile, weather and route inputs
+ */
+export function planFueling(input: FuelingInput): FuelPlan {
+  const { ride, profile, weather, route, unitSystem } = input;
+  const products = input.products || BUILT_IN_PRODUCTS;
+  const { durationMinutes } = ride;
+  const schedule: FuelAlert[] = [];
+  const bodyMass = getBodyMass(profile);
+  const resolvedEffort = ride.target ? resolveEffort(ride.target, profile, bodyMass) : null;
+  const effort = resolvedEffort && resolvedEffort.watts > 0 ? resolvedEffort : null;
+  // A power/heart-rate target describes the whole ride, so segments only apply without one
+  const segmentWindows = !effort && ride.segments && ride.segments.length > 0
+    ? getSegmentWindows(ride.segments, durationMinutes)
+    : [];
+  const intensity = effort
+    ? effort.intensity
+    : segmentWindows.length > 0 ? getOverallIntensity(segmentWindows) : ride.intensity;
+  const bottles = input.bottles || DEFAULT_BOTTLES;
+
+  const fluidStrategy = getFluidStrategy(weather.temperature, weather.humidity, profile?.sweatRate, intensity);
+  const fluidRate = scaleToMass(fluidStrategy.fluidRate, bodyMass, FLUID_LIMITS);
+  const fluidTotal = Math.round((durationMinutes / 60) * fluidRate);
+  const fluidReason = `${fluidStrategy.reason}; ${describeScaling(fluidStrategy.fluidRate, fluidRate, bodyMass, 'ml')}`;
+  const rideDistance = ride.distanceKm ?? route?.distance ?? null;
+  // Route pacing only applies when the plan follows the route
+  const pace = createPace(route ? ride.pacing : undefined, rideDistance, durationMinutes);
+  const glycogenInput = {
+    bodyMass,
+    durationMinutes,
+    intensity,
+    preRideMeal: ride.preRideMeal || 'normal',
+    route,
+    carbOxidation: effort?.carbOxidation,
+    segments: segmentWindows,
+    pace
+  };
+
+  // STEP 1: Check if ANY fueling is needed
+  if (durationMinutes < 60) {
+    // No fueling needed for rides under 60 minutes
+    return {
+      alerts: schedule,
+      bodyMass,
+      carbRate: 0,
+      sodiumRate: 0,
+      fluidRate,
+      totals: { carbs: 0, fluid: fluidTotal, sodium: 0, caffeine: 0 },
+      servings: [],
+      restocks: [],
+      glycogen: projectGlycogen({ ...glycogenInput, alerts: schedule }),
+      effort,
+      segments: segmentWindows.map(window => ({ ...window, carbRate: 0, carbInterval: 0 })),
+      climbs: route && pace ? planClimbs(route.climbs, pace, () => 0) : [],
+      hydration: { bottles, carried: bottles.count * bottles.capacity, fluidReason, refills: [] }
+    };
+  }
+
+  // STEP 2: Determine carb intake rate based on intensity + duration, or on carb oxidation at a power target.
+  // Segmented rides get a rate per segment, gated on the duration of the whole ride.
+  const adjustments = getProfileAdjustments(profile);
+  const phases: CarbPhase[] = (segmentWindows.length > 0
+    ? segmentWindows
+    : [{ label: null, start: 0, end: durationMinutes, intensity }]
+  ).map(window => {
+    const strategy = effort
+      ? getEffortCarbStrategy(effort, durationMinutes)
+      : getCarbStrategy(window.intensity, durationMinutes);
+    // Power already reflects the rider's size, so only the intensity buckets are scaled by mass
+    const rate = effort
+      ? Math.round(Math.min(CARB_LIMITS.ceiling, Math.max(strategy.carbRate > 0 ? CARB_LIMITS.floor : 0, strategy.carbRate)))
+      : scaleToMass(strategy.carbRate, bodyMass, CARB_LIMITS);
+    return {
+      ...window,
+      strategy,
+      carbRate: rate,
+      carbScaling: effort
+        ? `${rate}g/h${rate !== strategy.carbRate ? ', capped' : ''}`
+        : describeScaling(strategy.carbRate, rate, bodyMass, 'g')
+    };
+  });
+
+  // Apply profile adjustments to timing and dose size
+  const getInterval = (phase: CarbPhase) =>
+    Math.max(10, Math.round(phase.strategy.carbInterval * adjustments.doseFactor));
+  const phaseStarts = phases
+    .filter(phase => phase.carbRate > 0 && phase.strategy.startTime !== null)
+    .map(phase => Math.max(phase.start, 30, (phase.strategy.startTime as number) - adjustments.startOffset))
+    .filter(start => start < durationMinutes);
+  const startTime = phaseStarts.length > 0 ? Math.min(...phaseStarts) : null;
+  const preferredFuels = profile?.preferredFuels || [];
+
+  // Ride-level carb rate: the single rate, or the time-weighted average across segments
+  const carbRate = Math.round(
+    phases.reduce((sum, phase) => sum + phase.carbRate * (phase.end - phase.start), 0) / durationMinutes
+  );
+
+  // STEP 3: Generate carb intake schedule
+  if (startTime !== null) {
+    let currentTime = startTime;
+    let carbIndex = 0;
+
+    while (currentTime < durationMinutes) {
+      const phase = phases.find(candidate => currentTime >= candidate.start && currentTime < candidate.end) ||
+        phases[phases.length - 1];
+
+      // Segments that need no carbs (e.g. an easy cool-down) are skipped
+      if (phase.carbRate === 0) {
+        currentTime = phase.end;
+        continue;
+      }
+
+      const carbInterval = getInterval(phase);
+      const carbPerIntake = Math.round(phase.carbRate * (carbInterval / 60));
+      const item = suggestCarbItem(carbPerIntake, preferredFuels, carbIndex++, {
+        drinkOnly: adjustments.drinkBasedCarbs,
+        multiTransportable: phase.carbRate > 60,
+        products
+      });
+
+      schedule.push({
+        time: currentTime,
+        type: 'carbs',
+        amount: item.label,
+        priority: 'normal',
+        carbs: item.carbs,
+        fluid: item.fluid,
+        sodium: item.sodium,
+        rationale: `${phase.label ? `${phase.label} (${phase.intensity}): ` : ''}${phase.strategy.reason}; ${phase.carbScaling}, every ${carbInterval} min`,
+        adjustments: currentTime === startTime && adjustments.startNote
+          ? [...adjustments.carbNotes, adjustments.startNote]
+          : adjustments.carbNotes,
+        item
+      });
+      currentTime += carbInterval;
+    }
+  }
+
+  // Add pre-climb fueling alerts for major climbs (if hard/moderate intensity)
+  if (route && route.climbs.length > 0 && intensity !== 'casual' && pace) {
+    route.climbs.forEach(climb => {
+      if (climb.elevationGain > 100) { // Only for significant climbs
+        const climbStartTime = Math.round(pace.timeAt(climb.startDistance));
+        let preFuelTime = Math.max(5, climbStartTime - 15); // 15 minutes before climb
+        // Anchor to the road rather than the clock, so the top-up still lands before the climb off-pace
+        let preFuelDistance = Math.round(pace.distanceAt(preFuelTime) * 10) / 10;
+        // A descent into the climb pushes the top-up back onto the flat above it
+        const descent = findDescent(getAvoidedDescents(route), preFuelDistance);
+        if (descent) {
+          preFuelDistance = Math.round(Math.max(0, descent.startDistance - DESCENT_CLEARANCE_KM) * 10) / 10;
+          preFuelTime = Math.max(5, Math.round(pace.timeAt(preFuelDistance)));
+        }
+        const leadDistance = climb.startDistance - preFuelDistance;
+        const leadDisplay = unitSystem === 'US'
+          ? `${(leadDistance * 0.621371).toFixed(1)} mi`
+          : `${leadDistance.toFixed(1)} km`;
+
+        // Only add if not too close to existing alerts and within ride duration
+        const nearbyAlert = schedule.find(alert => Math.abs(alert.time - preFuelTime) < 10);
+        if (!nearbyAlert && preFuelTime < durationMinutes) {
+          const elevationDisplay = unitSystem === 'US'
+            ? `+${Math.round(climb.elevationGain * 3.28084)}ft`
+            : `+${Math.round(climb.elevationGain)}m`;
+
+          const item = suggestCarbItem(25, preferredFuels, 0, {
+            drinkOnly: adjustments.drinkBasedCarbs,
+            fastActing: true,
+            products
+          });
+
+          schedule.push({
+            time: preFuelTime,
+            type: 'carbs',
+            amount: `${item.label} before climb (${elevationDisplay}) - at ${formatDistance(preFuelDistance, unitSystem)}, ${leadDisplay} before the climb`,
+            priority: 'critical',
+            carbs: item.carbs,
+            fluid: item.fluid,
+            sodium: item.sodium,
+            rationale: `Top up 15 min before a ${elevationDisplay} climb`,
+            distance: preFuelDistance,
+            adjustments: [
+              ...(adjustments.drinkBasedCarbs ? adjustments.carbNotes.slice(0, 1) : []),
+              ...(descent ? [`Taken before the ${describeDescent(descent, unitSystem)}`] : [])
+            ],
+            item
+          });
+        }
+      }
+    });
+  }
+
+  // STEP 4: Determine electrolyte needs (evidence-based thresholds)
+  let electrolytes = getElectrolyteStrategy(durationMinutes, weather.temperature, profile?.sweatRate);
+
+  // Cramp-prone riders get sodium even when heat and sweat rate alone would not call for it
+  if (adjustments.extraSodium > 0 && durationMinutes >= 60) {
+    electrolytes = electrolytes
+      ? { ...electrolytes, electrolyteRate: electrolytes.electrolyteRate + adjustments.extraSodium }
+      : { electrolyteRate: 300, electrolyteInterval: 60, reason: 'Cramp-prone rider on a 60+ min ride' };
+  }
+
+  const sodiumRate = electrolytes ? scaleToMass(electrolytes.electrolyteRate, bodyMass, SODIUM_LIMITS) : 0;
+
+  // STEP 5: Generate electrolyte schedule
+  if (electrolytes) {
+    let currentTime = 60; // Start electrolytes at 60 minutes
+    const sodiumScaling = describeScaling(electrolytes.electrolyteRate, sodiumRate, bodyMass, 'mg');
+
+    const item = suggestElectrolyteItem(sodiumRate, preferredFuels, products);
+
+    while (currentTime < durationMinutes) {
+      schedule.push({
+        time: currentTime,
+        type: 'electrolytes',
+        amount: `${item.sodium}mg sodium: ${item.label}`,
+        priority: 'normal',
+        carbs: item.carbs,
+        fluid: item.fluid,
+        sodium: item.sodium,
+        rationale: `${electrolytes.reason}; ${sodiumScaling}`,
+        adjustments: adjustments.sodiumNotes,
+        item
+      });
+      currentTime += electrolytes.electrolyteInterval;
+    }
+  }
+
+  // STEP 6: Fluid reminders, net of whatever drink-based doses already cover in each window
+  for (let time = FLUID_INTERVAL; time < durationMinutes; time += FLUID_INTERVAL) {
+    const windowTarget = Math.round(fluidRate * (FLUID_INTERVAL / 60));
+    const fromDrinks = schedule
+      .filter(alert => alert.type !== 'fluid' && alert.time > time - FLUID_INTERVAL && alert.time <= time)
+      .reduce((sum, alert) => sum + alert.fluid, 0);
+    const volume = Math.round(Math.max(0, windowTarget - fromDrinks) / 50) * 50;
+
+    if (volume > 0) {
+      schedule.push({
+        time,
+        type: 'fluid',
+        amount: `Drink ${volume}ml`,
+        priority: 'normal',
+        carbs: 0,
+        fluid: volume,
+        sodium: 0,
+        rationale: fromDrinks > 0
+          ? `${fluidRate}ml/h target (${fluidReason}), ${fromDrinks}ml already from sports drink`
+          : `${fluidRate}ml/h target (${fluidReason})`,
+        adjustments: [],
+        item: null
+      });
+    }
+  }
+
+  // Nobody should be opening a gel at 60 km/h, so keep intake on the flat around descents
+  const placed = route && pace
+    ? moveOffDescents(schedule, getAvoidedDescents(route), pace, durationMinutes, unitSystem)
+    : schedule;
+
+  // STEP 7: Aid stations, timed from the pace along the route
+  const stops: TimedStation[] = pace
+    ? (input.aidStations ?? route?.aidStations ?? [])
+      .map(station => ({ station, time: Math.round(pace.timeAt(station.distance)) }))
+      .filter(stop => stop.time > 0 && stop.time < durationMinutes)
+      .sort((a, b) => a.time - b.time)
+    : [];
+
+  const sorted = placed.sort((a, b) => a.time - b.time);
+  const { carried, restocks, restockAlerts } = planRestocks(sorted, stops, unitSystem);
+
+  // STEP 8: Bottle capacity and refill planning
+  const withRestocks = [...sorted, ...restockAlerts].sort((a, b) => a.time - b.time);
+  const { alerts, refills } = planRefills(withRestocks, bottles, stops, pace, unitSystem);
+
+  return {
+    alerts,
+    bodyMass,
+    carbRate,
+    sodiumRate,
+    fluidRate,
+    totals: {
+      carbs: alerts.reduce((sum, alert) => sum + alert.carbs, 0),
+      fluid: fluidTotal,
+      sodium: alerts.reduce((sum, alert) => sum + alert.sodium, 0),
+      caffeine: alerts.reduce((sum, alert) => sum + (alert.item?.caffeine ?? 0), 0)
+    },
+    servings: summarizeServings(carried),
+    restocks,
+    glycogen: projectGlycogen({ ...glycogenInput, alerts }),
+    effort,
+    segments: segmentWindows.map(window => {
+      const phase = phases.find(candidate => candidate.start === window.start) as CarbPhase;
+      return { ...window, carbRate: phase.carbRate, carbInterval: phase.carbRate > 0 ? getInterval(phase) : 0 };
+    }),
+    // Mixed rides fuel each climb at the rate of the segment it falls in
+    climbs: route && pace
+      ? planClimbs(route.climbs, pace, time =>
+        phases.find(phase => time >= phase.start && time < phase.end)?.carbRate ?? carbRate)
+      : [],
+    hydration: { bottles, carried: bottles.count * bottles.capacity, fluidReason, refills }
+  };
+}
@@ -0,0 +1,173 @@
+/**
+ * Glycogen balance model
+ * Estimates carbohydrate stores minute by minute so a plan can show why it does or does not prevent a bonk
+ */
+
+import type { FuelAlert, RideIntensity, RouteData } from './fuelingEngine';
+import type { RidePace } from './speedModel';
+
+export type PreRideMeal = 'fasted' | 'normal' | 'carb-loaded';
+
+export interface GlycogenInput {
+  bodyMass: number; // kg
+  durationMinutes: number;
+  intensity: RideIntensity;
+  preRideMeal: PreRideMeal;
+  route: RouteData | null;
+  alerts: FuelAlert[];
+  carbOxidation?: number; // g/hour from a power/heart-rate target, replaces the intensity estimate
+  segments?: Array<{ start: number; end: number; intensity: RideIntensity }>; // mixed rides
+  pace?: RidePace | null; // maps climbs to minutes, defaults to even pacing over the route
+}
+
+export interface GlycogenPoint {
+  time: number; // minutes
+  stores: number; // grams of muscle + liver glycogen
+}
+
+export interface GlycogenProjection {
+  startStores: number; // grams
+  threshold: number; // grams - below this the rider is at risk of bonking
+  burnRate: number; // g/hour of carbohydrate oxidised at the ride's base (or overall) intensity
+  absorbed: number; // grams of ingested carbs absorbed during the ride
+  points: GlycogenPoint[];
+  minStores: number;
+  finishStores: number;
+  bonkRiskTime: number | null; // first minute stores fall below the threshold
+  summary: string;
+}
+
+// Typical stores for a trained rider: ~5.5g/kg in working muscle plus ~1.4g/kg in the liver
+const MUSCLE_GLYCOGEN_PER_KG = 5.5;
+const LIVER_GLYCOGEN_PER_KG = 1.4;
+
+const PRE_RIDE_MEAL: Record<PreRideMeal, { muscle: number; liver: number; label: string }> = {
+  fasted: { muscle: 1, liver: 0.5, label: 'fasted start (liver stores half full)' },
+  normal: { muscle: 1, liver: 1, label: 'carb breakfast 2-3 hours before' },
+  'carb-loaded': { muscle: 1.3, liver: 1, label: 'carb-loaded (+30% muscle glycogen)' }
+};
+
+// Carbohydrate oxidation for a 70kg rider, scaled per kg from there
+const REFERENCE_MASS_KG = 70;
+const CARB_OXIDATION: Record<RideIntensity, number> = {
+  casual: 70, // g/hour - ~550kcal/h, roughly half from carbohydrate
+  moderate: 115, // ~700kcal/h, two-thirds from carbohydrate
+  hard: 170 // ~850kcal/h, mostly carbohydrate
+};
+
+// Climbs are ridden roughly one zone harder than the rest of the ride
+const CLIMB_INTENSITY: Record<RideIntensity, RideIntensity> = {
+  casual: 'moderate',
+  moderate: 'hard',
+  hard: 'hard'
+};
+const HARD_CLIMB_FACTOR = 1.15;
+
+// The gut delivers at most ~1g/min of glucose alone, ~1.5g/min with glucose+fructose blends
+const ABSORPTION_LIMIT = 1; // g/minute
+const MULTI_TRANSPORT_ABSORPTION_LIMIT = 1.5;
+
+// Performance drops sharply once stores fall below roughly a quarter of a full tank
+const BONK_THRESHOLD = 0.25;
+
+const SAMPLE_INTERVAL = 5; // minutes between plotted points
+
+function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
+}
+
+/**
+ * Minutes spent on each climb, from the ride's pacing
+ */
+function getClimbMinutes(
+  route: RouteData | null,
+  durationMinutes: number,
+  pace: RidePace | null | undefined
+): Array<{ start: number; end: number }> {
+  if (!route || route.distance <= 0 || route.climbs.length === 0) return [];
+  const minutesPerKm = durationMinutes / route.distance;
+  const timeAt = pace ? pace.timeAt : (distance: number) => distance * minutesPerKm;
+  return route.climbs.map(climb => ({
+    start: timeAt(climb.startDistance),
+    end: timeAt(climb.endDistance)
+  }));
+}
+
+/**
+ * Projects glycogen stores over the ride from starting stores, burn rate and scheduled intake
+ */
+export function projectGlycogen(input: GlycogenInput): GlycogenProjection {
+  const { bodyMass, durationMinutes, intensity, preRideMeal, route, alerts, carbOxidation, segments = [] } = input;
+  const meal = PRE_RIDE_MEAL[preRideMeal];
+  const massFactor = bodyMass / REFERENCE_MASS_KG;
+
+  const startStores = Math.round(
+    bodyMass * (MUSCLE_GLYCOGEN_PER_KG * meal.muscle + LIVER_GLYCOGEN_PER_KG * meal.liver)
+  );
+  const threshold = Math.round(startStores * BONK_THRESHOLD);
+  const burnRate = Math.round(carbOxidation ?? CARB_OXIDATION[intensity] * massFactor);
+
+  // Base and climbing burn for a minute, following the segment being ridden on mixed rides
+  const getRates = (minute: number): { base: number; climb: number } => {
+    const segment = segments.find(candidate => minute > candidate.start && minute <= candidate.end);
+    const level = segment ? segment.intensity : intensity;
+    const base = segment && carbOxidation === undefined ? CARB_OXIDATION[level] * massFactor : burnRate;
+    // Climbs still go one zone up from whichever base rate applies
+    const climbFactor = (CARB_OXIDATION[CLIMB_INTENSITY[level]] / CARB_OXIDATION[level]) *
+      (level === 'hard' ? HARD_CLIMB_FACTOR : 1);
+    return { base, climb: base * climbFactor };
+  };
+  const climbs = getClimbMinutes(route, durationMinutes, input.pace);
+
+  // Glucose+fructose products absorb faster, so the gut limit follows what is actually eaten
+  const usesBlends = alerts.some(alert => (alert.item?.product.fructoseRatio ?? 0) >= 0.5);
+  const absorptionLimit = usesBlends ? MULTI_TRANSPORT_ABSORPTION_LIMIT : ABSORPTION_LIMIT;
+
+  const points: GlycogenPoint[] = [{ time: 0, stores: startStores }];
+  let stores = startStores;
+  let gut = 0;
+  let absorbed = 0;
+  let bonkRiskTime: number | null = null;
+  let minStores = startStores;
+
+  for (let minute = 1; minute <= durationMinutes; minute++) {
+    // Ingested carbs join the gut pool and are absorbed at the transport limit
+    gut += alerts
+      .filter(alert => alert.time === minute - 1)
+      .reduce((sum, alert) => sum + alert.carbs, 0);
+    const uptake = Math.min(gut, absorptionLimit);
+    gut -= uptake;
+    absorbed += uptake;
+
+    const climbing = climbs.some(climb => minute > climb.start && minute <= climb.end);
+    const rates = getRates(minute);
+    const burn = (climbing ? rates.climb : rates.base) / 60;
+
+    stores = Math.max(0, stores - burn + uptake);
+    minStores = Math.min(minStores, stores);
+    if (bonkRiskTime === null && stores < threshold) {
+      bonkRiskTime = minute;
+    }
+    if (minute % SAMPLE_INTERVAL === 0 || minute === durationMinutes) {
+      points.push({ time: minute, stores: Math.round(stores) });
+    }
+  }
+
+  const summary = bonkRiskTime !== null
+    ? `Stores drop below ${threshold}g at ${formatMinutes(bonkRiskTime)} - plan more carbs before then`
+    : `Stores stay above ${threshold}g (lowest ${Math.round(minStores)}g) - ${meal.label}`;
+
+  return {
+    startStores,
+    threshold,
+    burnRate,
+    absorbed: Math.round(absorbed),
+    points,
+    minStores: Math.round(minStores),
+    finishStores: Math.round(stores),
+    bonkRiskTime,
+    summary
+  };
+}
@@ -0,0 +1,250 @@
+/**
+ * Garmin FIT importer for course and activity files
+ * Decodes just enough of the binary protocol to read record, course and course point messages
+ */
+
+import { GPXValidationError } from '../gpxValidator';
+import type { RouteWaypoint, TrackPoint } from '../routeAnalysis';
+import type { ParsedRoute, RouteImporter } from './types';
+import { cleanName, DEFAULT_ROUTE_NAME } from './validation';
+
+interface FieldDefinition {
+  number: number;
+  size: number;
+  baseType: number;
+}
+
+interface MessageDefinition {
+  globalNumber: number;
+  littleEndian: boolean;
+  fields: FieldDefinition[];
+  developerSize: number; // bytes of developer fields to skip
+}
+
+type FieldValues = Map<number, number | string>;
+
+// Global message numbers from the FIT profile
+const MESSAGE_RECORD = 20;
+const MESSAGE_COURSE = 31;
+const MESSAGE_COURSE_POINT = 32;
+
+// Field 253 in every message; FIT timestamps count seconds from 1989-12-31T00:00:00Z
+const FIELD_TIMESTAMP = 253;
+const FIT_EPOCH_MS = Date.UTC(1989, 11, 31);
+
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+// FIT altitude is stored as (meters + 500) × 5
+const ALTITUDE_SCALE = 5;
+const ALTITUDE_OFFSET = 500;
+
+// Course point types that are stops; everything else (turns, summits, sprints, first aid) is a cue.
+// Generic points are classified by their name, like an unlabelled GPX waypoint.
+const COURSE_POINT_SYMBOLS: Record<number, string> = {
+  0: '',
+  3: 'water',
+  4: 'food',
+  28: 'aid', // aid_station
+  32: 'food', // energy_gel
+  33: 'water', // sports_drink
+  48: 'aid' // store
+};
+
+const CRC_TABLE = [
+  0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401,
+  0xa001, 0x6c00, 0x7800, 0xb401, 0x5000, 0x9c01, 0x8801, 0x4400
+];
+
+function updateCrc(crc: number, byte: number): number {
+  let tmp = CRC_TABLE[crc & 0xf];
+  crc = (crc >> 4) & 0x0fff;
+  crc = crc ^ tmp ^ CRC_TABLE[byte & 0xf];
+  tmp = CRC_TABLE[crc & 0xf];
+  crc = (crc >> 4) & 0x0fff;
+  return crc ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xf];
+}
+
+/**
+ * Reads one field value, or null for the base type's "invalid" marker and unsupported types
+ */
+function readField(view: DataView, offset: number, field: FieldDefinition, littleEndian: boolean): number | string | null {
+  if (field.size === 0) return null;
+  switch (field.baseType & 0x1f) {
+    case 0x00: // enum
+    case 0x02: // uint8
+    case 0x0a: // uint8z
+      return view.getUint8(offset) === 0xff ? null : view.getUint8(offset);
+    case 0x01: // sint8
+      return view.getInt8(offset) === 0x7f ? null : view.getInt8(offset);
+    case 0x03: { // sint16
+      if (field.size < 2) return null;
+      const value = view.getInt16(offset, littleEndian);
+      return value === 0x7fff ? null : value;
+    }
+    case 0x04: // uint16
+    case 0x0b: { // uint16z
+      if (field.size < 2) return null;
+      const value = view.getUint16(offset, littleEndian);
+      return value === 0xffff ? null : value;
+    }
+    case 0x05: { // sint32
+      if (field.size < 4) return null;
+      const value = view.getInt32(offset, littleEndian);
+      return value === 0x7fffffff ? null : value;
+    }
+    case 0x06: // uint32
+    case 0x0c: { // uint32z
+      if (field.size < 4) return null;
+      const value = view.getUint32(offset, littleEndian);
+      return value === 0xffffffff ? null : value;
+    }
+    case 0x07: { // string, null terminated within the field
+      const bytes = new Uint8Array(view.buffer, view.byteOffset + offset, field.size);
+      const end = bytes.indexOf(0);
+      return new TextDecoder('utf-8').decode(end >= 0 ? bytes.subarray(0, end) : bytes);
+    }
+    default:
+      return null;
+  }
+}
+
+function parseFIT(content: ArrayBuffer): ParsedRoute {
+  const view = new DataView(content);
+  if (content.byteLength < 14) {
+    throw new GPXValidationError({ code: 'BAD_FORMAT', message: 'Invalid FIT file: too short' });
+  }
+
+  const headerSize = view.getUint8(0);
+  const dataSize = view.getUint32(4, true);
+  const signature = String.fromCharCode(view.getUint8(8), view.getUint8(9), view.getUint8(10), view.getUint8(11));
+  if ((headerSize !== 12 && headerSize !== 14) || signature !== '.FIT') {
+    throw new GPXValidationError({ code: 'BAD_FORMAT', message: 'Invalid FIT file: missing .FIT header' });
+  }
+  const dataEnd = headerSize + dataSize;
+  if (dataEnd + 2 > content.byteLength) {
+    throw new GPXValidationError({ code: 'BAD_FORMAT', message: 'Invalid FIT file: truncated data' });
+  }
+
+  let crc = 0;
+  for (let i = 0; i < dataEnd; i++) crc = updateCrc(crc, view.getUint8(i));
+  if (crc !== view.getUint16(dataEnd, true)) {
+    throw new GPXValidationError({ code: 'BAD_FORMAT', message: 'Invalid FIT file: checksum mismatch' });
+  }
+
+  const definitions = new Map<number, MessageDefinition>();
+  const points: TrackPoint[] = [];
+  const waypoints: RouteWaypoint[] = [];
+  let courseName = '';
+  let lastElevation = 0;
+  let lastTimestamp: number | null = null;
+  let offset = headerSize;
+
+  // Every read is bounds-checked so a corrupt length cannot run past the data section
+  const ensure = (bytes: number) => {
+    if (offset + bytes > dataEnd) throw new GPXValidationError({ code: 'BAD_FORMAT', message: 'Invalid FIT file: truncated record' });
+  };
+
+  while (offset < dataEnd) {
+    const header = view.getUint8(offset++);
+
+    // Compressed timestamp headers carry a 2-bit local message type and no definition bit
+    const compressed = (header & 0x80) !== 0;
+    const localType = compressed ? (header >> 5) & 0x03 : header & 0x0f;
+
+    if (!compressed && (header & 0x40) !== 0) {
+      const hasDeveloperFields = (header & 0x20) !== 0;
+      ensure(5);
+      const littleEndian = view.getUint8(offset + 1) === 0;
+      const globalNumber = view.getUint16(offset + 2, littleEndian);
+      const fieldCount = view.getUint8(offset + 4);
+      offset += 5;
+      ensure(fieldCount * 3);
+      const fields: FieldDefinition[] = [];
+      for (let i = 0; i < fieldCount; i++) {
+        fields.push({
+          number: view.getUint8(offset + i * 3),
+          size: view.getUint8(offset + i * 3 + 1),
+          baseType: view.getUint8(offset + i * 3 + 2)
+        });
+      }
+      offset += fieldCount * 3;
+
+      let developerSize = 0;
+      if (hasDeveloperFields) {
+        ensure(1);
+        const developerCount = view.getUint8(offset++);
+        ensure(developerCount * 3);
+        for (let i = 0; i < developerCount; i++) developerSize += view.getUint8(offset + i * 3 + 1);
+        offset += developerCount * 3;
+      }
+
+      definitions.set(localType, { globalNumber, littleEndian, fields, developerSize });
+      continue;
+    }
+
+    const definition = definitions.get(localType);
+    if (!definition) {
+      throw new GPXValidationError({ code: 'BAD_FORMAT', message: 'Invalid FIT file: data message without a definition' });
+    }
+
+    const values: FieldValues = new Map();
+    definition.fields.forEach(field => {
+      ensure(field.size);
+      const value = readField(view, offset, field, definition.littleEndian);
+      if (value !== null) values.set(field.number, value);
+      offset += field.size;
+    });
+    ensure(definition.developerSize);
+    offset += definition.developerSize;
+
+    // Compressed headers carry a 5-bit offset that rolls over from the last full timestamp
+    const timestamp = values.get(FIELD_TIMESTAMP);
+    if (typeof timestamp === 'number') {
+      lastTimestamp = timestamp;
+    } else if (compressed && lastTimestamp !== null) {
+      lastTimestamp += ((header & 0x1f) - lastTimestamp) & 0x1f;
+      values.set(FIELD_TIMESTAMP, lastTimestamp);
+    }
+
+    if (definition.globalNumber === MESSAGE_RECORD) {
+      const lat = values.get(0);
+      const lon = values.get(1);
+      // Enhanced altitude (field 78) supersedes the 16-bit one when both are present
+      const altitude = values.get(78) ?? values.get(2);
+      if (typeof altitude === 'number') lastElevation = altitude / ALTITUDE_SCALE - ALTITUDE_OFFSET;
+      // Records without a fix (indoor, tunnels, sensor-only) have no position
+      const time = values.get(FIELD_TIMESTAMP);
+      if (typeof lat === 'number' && typeof lon === 'number') {
+        points.push({
+          lat: lat * SEMICIRCLES_TO_DEGREES,
+          lon: lon * SEMICIRCLES_TO_DEGREES,
+          ele: lastElevation,
+          ...(typeof time === 'number' && { time: FIT_EPOCH_MS + time * 1000 })
+        });
+      }
+    } else if (definition.globalNumber === MESSAGE_COURSE) {
+      const name = values.get(5);
+      if (typeof name === 'string') courseName = name;
+    } else if (definition.globalNumber === MESSAGE_COURSE_POINT) {
+      const lat = values.get(2);
+      const lon = values.get(3);
+      const type = values.get(5);
+      const name = values.get(6);
+      if (typeof lat === 'number' && typeof lon === 'number') {
+        waypoints.push({
+          lat: lat * SEMICIRCLES_TO_DEGREES,
+          lon: lon * SEMICIRCLES_TO_DEGREES,
+          name: cleanName(typeof name === 'string' ? name : ''),
+          symbol: typeof type === 'number' ? COURSE_POINT_SYMBOLS[type] ?? 'generic' : ''
+        });
+      }
+    }
+  }
+
+  return { name: cleanName(courseName, DEFAULT_ROUTE_NAME), points, waypoints };
+}
+
+export const fitImporter: RouteImporter = {
+  format: 'FIT',
+  extensions: ['.fit'],
+  parse: parseFIT
+};
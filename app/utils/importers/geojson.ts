@@ -0,0 +1,120 @@
+/**
+ * GeoJSON importer for LineString and MultiLineString routes, with Point features as waypoints
+ */
+
+import { GPXValidationError, GPXValidator } from '../gpxValidator';
+import type { RouteWaypoint, TrackPoint } from '../routeAnalysis';
+import type { ParsedRoute, RouteImporter } from './types';
+import { cleanName, decodeText, DEFAULT_ROUTE_NAME } from './validation';
+
+interface GeoJSONGeometry {
+  type: string;
+  coordinates?: unknown;
+  geometries?: GeoJSONGeometry[];
+}
+
+interface GeoJSONFeature {
+  type: 'Feature';
+  geometry: GeoJSONGeometry | null;
+  properties?: Record<string, unknown> | null;
+}
+
+// Properties route planners and OSM exports use to say what a point is
+const SYMBOL_PROPERTIES = ['sym', 'symbol', 'type', 'amenity', 'shop', 'marker-symbol', 'category'];
+
+function toPoint(position: unknown): TrackPoint {
+  const [lon, lat, ele] = Array.isArray(position) ? position : [];
+  return {
+    lat: typeof lat === 'number' ? lat : NaN,
+    lon: typeof lon === 'number' ? lon : NaN,
+    ele: typeof ele === 'number' ? ele : 0
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+function getDepth(value: unknown, depth: number = 0): number {
+  if (depth > GPXValidator.MAX_NESTED_ELEMENTS) return depth;
+  if (Array.isArray(value)) {
+    return value.reduce((max: number, item) => Math.max(max, getDepth(item, depth + 1)), depth);
+  }
+  if (isObject(value)) {
+    return Object.values(value).reduce((max: number, item) => Math.max(max, getDepth(item, depth + 1)), depth);
+  }
+  return depth;
+}
+
+function parseGeoJSON(content: ArrayBuffer): ParsedRoute {
+  const text = decodeText(content);
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new GPXValidationError({ code: 'BAD_FORMAT', message: 'Invalid GeoJSON file format' });
+  }
+
+  if (getDepth(data) > GPXValidator.MAX_NESTED_ELEMENTS) {
+    throw new GPXValidationError({ code: 'TOO_DEEPLY_NESTED', message: 'GeoJSON structure too deeply nested' });
+  }
+
+  const root = (isObject(data) ? data : {}) as { type?: string; features?: unknown[]; name?: unknown };
+  const features: GeoJSONFeature[] = root.type === 'FeatureCollection' && Array.isArray(root.features)
+    // Null or scalar entries are not features, so they are skipped rather than read from
+    ? root.features.filter((feature): feature is GeoJSONFeature => isObject(feature))
+    : root.type === 'Feature'
+      ? [root as GeoJSONFeature]
+      : root.type ? [{ type: 'Feature', geometry: root as GeoJSONGeometry, properties: null }] : [];
+  if (features.length === 0) {
+    throw new GPXValidationError({
+      code: 'BAD_FORMAT',
+      message: 'Invalid GeoJSON file: expected a Feature, FeatureCollection or geometry'
+    });
+  }
+
+  const points: TrackPoint[] = [];
+  const waypoints: RouteWaypoint[] = [];
+  let routeName = typeof root.name === 'string' ? root.name : '';
+
+  // Each line after the first starts a new segment, so the gap between lines is not ridden
+  const addLine = (line: unknown) => {
+    if (!Array.isArray(line)) return;
+    line.forEach((position, index) => {
+      const point = toPoint(position);
+      points.push(index === 0 && points.length > 0 ? { ...point, segmentStart: true } : point);
+    });
+  };
+
+  const addGeometry = (geometry: GeoJSONGeometry | null, properties: Record<string, unknown>) => {
+    if (!geometry) return;
+    const name = typeof properties.name === 'string' ? properties.name : '';
+
+    if (geometry.type === 'LineString' && Array.isArray(geometry.coordinates)) {
+      routeName = routeName || name;
+      addLine(geometry.coordinates);
+    } else if (geometry.type === 'MultiLineString' && Array.isArray(geometry.coordinates)) {
+      routeName = routeName || name;
+      geometry.coordinates.forEach(addLine);
+    } else if (geometry.type === 'Point') {
+      const { lat, lon } = toPoint(geometry.coordinates);
+      const symbol = SYMBOL_PROPERTIES
+        .map(key => properties[key])
+        .filter(value => typeof value === 'string')
+        .join(' ');
+      waypoints.push({ lat, lon, name: cleanName(name), symbol: cleanName(symbol) });
+    } else if (geometry.type === 'GeometryCollection' && Array.isArray(geometry.geometries)) {
+      geometry.geometries.forEach(child => addGeometry(child, properties));
+    }
+  };
+
+  features.forEach(feature => addGeometry(feature.geometry, isObject(feature.properties) ? feature.properties : {}));
+
+  return { name: cleanName(routeName, DEFAULT_ROUTE_NAME), points, waypoints };
+}
+
+export const geojsonImporter: RouteImporter = {
+  format: 'GeoJSON',
+  extensions: ['.geojson', '.json'],
+  parse: parseGeoJSON
+};
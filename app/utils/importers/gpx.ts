@@ -0,0 +1,147 @@
+/**
+ * GPX 1.0/1.1 importer
+ * Parses in a single pass with the DOM-free scanner, so it also runs in the route Web Worker.
+ * Every <trk> and <rte> becomes a track to pick from; <trkseg> boundaries are kept as gaps.
+ */
+
+import { GPXValidationError, GPXValidator } from '../gpxValidator';
+import type { RouteWaypoint, TrackPoint } from '../routeAnalysis';
+import type { ParsedRoute, ParsedTrack, RouteImporter } from './types';
+import { cleanName, decodeText, DEFAULT_ROUTE_NAME, parseTimestamp } from './validation';
+import { localName, scanXml } from './xmlScanner';
+
+const SUPPORTED_VERSIONS = ['1.0', '1.1'];
+
+// Points, and the child elements whose text is read from them
+const POINT_ELEMENTS = ['trkpt', 'rtept', 'wpt'];
+const TEXT_ELEMENTS = new Set(['ele', 'time', 'name', 'sym', 'type']);
+
+function parseGPX(content: ArrayBuffer, onProgress?: (fraction: number) => void): ParsedRoute {
+  const text = decodeText(content);
+  const tracks: ParsedTrack[] = [];
+  const waypoints: RouteWaypoint[] = [];
+  const waypointLines: number[] = [];
+  const path: string[] = [];
+  let fileName = '';
+  let pointCount = 0;
+  let missingElevation = 0;
+
+  // The track, point and named element being read
+  let track: ParsedTrack | null = null;
+  let segmentStart = false;
+  let point: { lat: number; lon: number; line: number; fields: Record<string, string> } | null = null;
+  let field: string | null = null;
+  let fieldText = '';
+
+  scanXml(text, {
+    openTag: (qualifiedName, attributes, line) => {
+      const name = localName(qualifiedName);
+      const parent = path[path.length - 1];
+      if (path.length === 0) {
+        if (name !== 'gpx') {
+          throw new GPXValidationError({ code: 'BAD_ROOT', message: 'Invalid GPX file: missing GPX root element' });
+        }
+        if (!SUPPORTED_VERSIONS.includes(attributes.version)) {
+          throw new GPXValidationError({
+            code: 'BAD_VERSION',
+            message: 'Unsupported GPX version. Only versions 1.0 and 1.1 are supported'
+          });
+        }
+      }
+      path.push(name);
+
+      if (name === 'trk' || name === 'rte') {
+        track = { name: '', type: name === 'trk' ? 'track' : 'route', points: [], lines: [] };
+      } else if (name === 'trkseg') {
+        // A new segment after a pause or a gap in the recording, not a ride from the last point
+        segmentStart = track !== null && track.points.length > 0;
+      } else if (POINT_ELEMENTS.includes(name)) {
+        if (name !== 'wpt' && ++pointCount > GPXValidator.MAX_TRACK_POINTS) {
+          throw new GPXValidationError({
+            code: 'TOO_MANY_POINTS',
+            message: `Too many track points. Maximum allowed is ${GPXValidator.MAX_TRACK_POINTS}`
+          });
+        }
+        // Missing coordinates parse as NaN and are reported, or repaired, with every other bad point
+        point = { lat: parseFloat(attributes.lat ?? ''), lon: parseFloat(attributes.lon ?? ''), line, fields: {} };
+      } else if (
+        (point && POINT_ELEMENTS.includes(parent) && TEXT_ELEMENTS.has(name)) ||
+        (name === 'name' && (parent === 'trk' || parent === 'rte' || parent === 'metadata' || parent === 'gpx'))
+      ) {
+        field = name;
+        fieldText = '';
+      }
+    },
+    text: value => {
+      if (field) fieldText += value;
+    },
+    closeTag: qualifiedName => {
+      const name = localName(qualifiedName);
+      path.pop();
+      const parent = path[path.length - 1];
+
+      if (name === field) {
+        if (point) {
+          point.fields[field] = fieldText.trim();
+        } else if (track && (parent === 'trk' || parent === 'rte')) {
+          track.name = cleanName(fieldText);
+        } else {
+          // GPX 1.1 names the file in <metadata>, GPX 1.0 directly under <gpx>
+          fileName = GPXValidator.sanitizeText(fieldText);
+        }
+        field = null;
+      } else if (point && (name === 'trkpt' || name === 'rtept')) {
+        const { ele, time } = point.fields;
+        if (!ele) missingElevation++;
+        const timestamp = parseTimestamp(time || '');
+        // Tolerate points outside a <trk> or <rte> by giving them a track of their own
+        if (!track) track = { name: '', type: name === 'trkpt' ? 'track' : 'route', points: [], lines: [] };
+        // Recorded activities stamp every trkpt with a <time>; planned routes usually have none
+        track.points.push({
+          lat: point.lat,
+          lon: point.lon,
+          ele: ele ? parseFloat(ele) : 0,
+          ...(timestamp !== undefined && { time: timestamp }),
+          ...(segmentStart && { segmentStart })
+        });
+        track.lines?.push(point.line);
+        segmentStart = false;
+        point = null;
+      } else if (point && name === 'wpt') {
+        // Waypoints mark cafés, water stops and other places to restock along the route
+        waypoints.push({
+          lat: point.lat,
+          lon: point.lon,
+          name: cleanName(point.fields.name || ''),
+          symbol: GPXValidator.sanitizeText(`${point.fields.sym || ''} ${point.fields.type || ''}`)
+        });
+        waypointLines.push(point.line);
+        point = null;
+      } else if (track && (name === 'trk' || name === 'rte' || path.length === 0)) {
+        if (track.points.length > 0) tracks.push(track);
+        track = null;
+      }
+    }
+  }, onProgress);
+
+  // Planners often export a route alongside the same track; the denser track is the better default
+  const ordered = [...tracks.filter(item => item.type === 'track'), ...tracks.filter(item => item.type === 'route')];
+  const selected = ordered[0];
+  const points: TrackPoint[] = selected?.points || [];
+
+  return {
+    name: fileName || selected?.name || DEFAULT_ROUTE_NAME,
+    points,
+    lines: selected?.lines,
+    waypoints,
+    waypointLines,
+    warnings: missingElevation > 0 ? [`No elevation on ${missingElevation} of ${pointCount} track points, set to 0 m`] : undefined,
+    tracks: ordered.length > 1 ? ordered : undefined
+  };
+}
+
+export const gpxImporter: RouteImporter = {
+  format: 'GPX',
+  extensions: ['.gpx'],
+  parse: parseGPX
+};
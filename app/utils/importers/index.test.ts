@@ -0,0 +1,186 @@
+import { describe, expect, it } from 'vitest';
+import { GPXValidationError } from '../gpxValidator';
+import { parseRouteContent, validateRouteFile, type RouteParseOptions } from './index';
+
+const encode = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+const gpx = (body: string, version = '1.1') =>
+  `<?xml version="1.0" encoding="UTF-8"?>\n<gpx version="${version}" xmlns="http://www.topografix.com/GPX/1/1">\n${body}\n</gpx>`;
+
+const trackpoints = (...coordinates: Array<[number, number]>) =>
+  coordinates.map(([lat, lon]) => `<trkpt lat="${lat}" lon="${lon}"><ele>100</ele></trkpt>`).join('\n');
+
+function parseError(filename: string, text: string | ArrayBuffer, options?: RouteParseOptions): GPXValidationError {
+  try {
+    parseRouteContent(filename, typeof text === 'string' ? encode(text) : text, options);
+  } catch (error) {
+    if (error instanceof GPXValidationError) return error;
+    throw error;
+  }
+  throw new Error('Expected the parse to fail');
+}
+
+describe('parseRouteContent', () => {
+  it('parses GPX tracks, waypoints and the lines they came from', () => {
+    const route = parseRouteContent('ride.gpx', encode(gpx(
+      '<wpt lat="45.01" lon="7.01"><name>Fountain</name><sym>Water</sym></wpt>\n' +
+      `<trk><name>Morning Loop</name><trkseg>\n${trackpoints([45, 7], [45.01, 7.01])}\n</trkseg></trk>`
+    )));
+    expect(route.name).toBe('Morning Loop');
+    expect(route.points).toEqual([{ lat: 45, lon: 7, ele: 100 }, { lat: 45.01, lon: 7.01, ele: 100 }]);
+    expect(route.lines).toEqual([5, 6]);
+    expect(route.waypoints).toEqual([{ lat: 45.01, lon: 7.01, name: 'Fountain', symbol: 'Water' }]);
+    expect(route.waypointLines).toEqual([3]);
+  });
+
+  it('returns the chosen track of a multi-track file', () => {
+    const text = gpx(
+      `<trk><name>Out</name><trkseg>${trackpoints([45, 7])}</trkseg></trk>\n` +
+      `<rte><name>Back</name><rtept lat="46" lon="8"/></rte>`
+    );
+    expect(parseRouteContent('ride.gpx', encode(text), { trackIndex: 1 })).toMatchObject({
+      name: 'Back',
+      points: [{ lat: 46, lon: 8 }]
+    });
+    expect(parseError('ride.gpx', text, { trackIndex: 2 }).code).toBe('TRACK_NOT_FOUND');
+  });
+
+  it('reports the index and file line of an invalid point or waypoint', () => {
+    expect(parseError('ride.gpx', gpx(`<trk><trkseg>\n${trackpoints([45, 7], [95, 7])}\n</trkseg></trk>`)))
+      .toMatchObject({ code: 'BAD_COORDINATE', pointIndex: 1, line: 5 });
+    expect(parseError('ride.gpx', gpx(`<trk><trkseg>\n<trkpt lat="45" lon="7"><ele>high</ele></trkpt>\n</trkseg></trk>`)))
+      .toMatchObject({ code: 'BAD_ELEVATION', pointIndex: 0, line: 4 });
+    expect(parseError('ride.gpx', gpx(`<wpt lat="45" lon="190"/>\n<trk><trkseg>${trackpoints([45, 7])}</trkseg></trk>`)))
+      .toMatchObject({ code: 'BAD_COORDINATE', waypointIndex: 0, line: 3 });
+  });
+
+  it('drops invalid points in repair mode and says how many', () => {
+    const route = parseRouteContent(
+      'ride.gpx',
+      encode(gpx(`<trk><trkseg>\n${trackpoints([45, 7], [95, 7], [45.01, 7.01])}\n</trkseg></trk>`)),
+      { repair: true }
+    );
+    expect(route.points.map(point => point.lat)).toEqual([45, 45.01]);
+    expect(route.lines).toBeUndefined();
+    expect(route.repairs).toEqual([expect.objectContaining({ code: 'BAD_COORDINATE', pointIndex: 1, line: 5 })]);
+    expect(route.warnings).toEqual(['Removed 1 invalid track point']);
+  });
+
+  it('rejects GPX files with the wrong root, version or no points', () => {
+    expect(parseError('ride.gpx', '<kml/>').code).toBe('BAD_ROOT');
+    expect(parseError('ride.gpx', gpx(trackpoints([45, 7]), '2.0')).code).toBe('BAD_VERSION');
+    expect(parseError('ride.gpx', gpx('<trk><trkseg></trkseg></trk>')).code).toBe('NO_POINTS');
+    expect(parseError('ride.gpx', gpx('<trk><trkseg>')).code).toBe('MALFORMED_XML');
+  });
+
+  it('rejects text that is not UTF-8 and unknown extensions', () => {
+    expect(parseError('ride.gpx', new Uint8Array([0x3c, 0xff, 0xfe, 0x3e]).buffer).code).toBe('BAD_ENCODING');
+    expect(parseError('ride.csv', 'lat,lon').code).toBe('BAD_EXTENSION');
+  });
+
+  it('parses TCX courses with course points', () => {
+    const route = parseRouteContent('ride.tcx', encode(
+      '<TrainingCenterDatabase><Courses><Course><Name>Hill Repeats</Name><Track>\n' +
+      '<Trackpoint><Position><LatitudeDegrees>45</LatitudeDegrees><LongitudeDegrees>7</LongitudeDegrees></Position>' +
+      '<AltitudeMeters>200</AltitudeMeters></Trackpoint>\n' +
+      '<Trackpoint><Position><LatitudeDegrees>45.01</LatitudeDegrees><LongitudeDegrees>7.01</LongitudeDegrees></Position></Trackpoint>\n' +
+      '</Track><CoursePoint><Name>Cafe</Name><Position><LatitudeDegrees>45.01</LatitudeDegrees>' +
+      '<LongitudeDegrees>7.01</LongitudeDegrees></Position><PointType>Food</PointType></CoursePoint></Course></Courses>' +
+      '</TrainingCenterDatabase>'
+    ));
+    expect(route.name).toBe('Hill Repeats');
+    // Altitude is carried forward over samples without one
+    expect(route.points.map(point => point.ele)).toEqual([200, 200]);
+    expect(route.lines).toEqual([2, 3]);
+    expect(route.waypoints).toEqual([{ lat: 45.01, lon: 7.01, name: 'Cafe', symbol: 'Food' }]);
+    expect(parseError('ride.tcx', gpx(trackpoints([45, 7]))).code).toBe('BAD_ROOT');
+  });
+
+  it('parses KML line strings and point placemarks', () => {
+    const route = parseRouteContent('ride.kml', encode(
+      '<kml xmlns="http://www.opengis.net/kml/2.2"><Document><name>Coast</name>\n' +
+      '<Placemark><name>Water stop</name><Point><coordinates>7.01,45.01</coordinates></Point></Placemark>\n' +
+      '<Placemark><LineString><coordinates>\n7,45,10\n7.01,45.01,20\n</coordinates></LineString></Placemark>\n' +
+      '</Document></kml>'
+    ));
+    expect(route.name).toBe('Coast');
+    expect(route.points).toEqual([{ lat: 45, lon: 7, ele: 10 }, { lat: 45.01, lon: 7.01, ele: 20 }]);
+    expect(route.lines).toEqual([4, 5]);
+    expect(route.waypoints).toEqual([{ lat: 45.01, lon: 7.01, name: 'Water stop', symbol: '' }]);
+    expect(parseError('ride.kml', '<Document/>').code).toBe('BAD_ROOT');
+  });
+
+  it('parses GeoJSON and skips features that are not objects', () => {
+    const route = parseRouteContent('ride.geojson', encode(JSON.stringify({
+      type: 'FeatureCollection',
+      features: [
+        null,
+        7,
+        { type: 'Feature', geometry: { type: 'LineString', coordinates: [[7, 45], [7.01, 45.01]] }, properties: { name: 'Ridge' } },
+        { type: 'Feature', geometry: { type: 'Point', coordinates: [7.01, 45.01] }, properties: { name: 'Tap', amenity: 'drinking_water' } }
+      ]
+    })));
+    expect(route.name).toBe('Ridge');
+    expect(route.points).toHaveLength(2);
+    expect(route.waypoints).toEqual([{ lat: 45.01, lon: 7.01, name: 'Tap', symbol: 'drinking_water' }]);
+    expect(parseError('ride.geojson', '{"type":').code).toBe('BAD_FORMAT');
+    expect(parseError('ride.geojson', 'null').code).toBe('BAD_FORMAT');
+  });
+
+  it('rejects FIT files that are too short or missing their header', () => {
+    expect(parseError('ride.fit', new Uint8Array(4).buffer).code).toBe('BAD_FORMAT');
+    expect(parseError('ride.fit', new Uint8Array(14).buffer).code).toBe('BAD_FORMAT');
+  });
+});
+
+describe('segment gaps', () => {
+  const segmentStarts = (filename: string, text: string, options?: RouteParseOptions) =>
+    parseRouteContent(filename, encode(text), options).points.map(point => Boolean(point.segmentStart));
+
+  it('marks the first point of each later GPX track segment', () => {
+    expect(segmentStarts('ride.gpx', gpx(
+      `<trk><trkseg>${trackpoints([45, 7], [45.01, 7])}</trkseg><trkseg>${trackpoints([46, 7], [46.01, 7])}</trkseg></trk>`
+    ))).toEqual([false, false, true, false]);
+  });
+
+  it('hands the gap on when repair drops the first point of a segment', () => {
+    expect(segmentStarts('ride.gpx', gpx(
+      `<trk><trkseg>${trackpoints([45, 7])}</trkseg><trkseg>${trackpoints([95, 7], [46, 7])}</trkseg></trk>`
+    ), { repair: true })).toEqual([false, true]);
+  });
+
+  it('marks the first point of each later TCX track', () => {
+    const trackpoint = (lat: number) =>
+      `<Trackpoint><Position><LatitudeDegrees>${lat}</LatitudeDegrees><LongitudeDegrees>7</LongitudeDegrees></Position></Trackpoint>`;
+    expect(segmentStarts('ride.tcx',
+      '<TrainingCenterDatabase><Activities><Activity Sport="Biking"><Id>2024-05-01T08:00:00Z</Id>' +
+      `<Lap><Track>${trackpoint(45)}${trackpoint(45.01)}</Track><Track>${trackpoint(45.02)}</Track></Lap>` +
+      `<Lap><Track>${trackpoint(45.03)}</Track></Lap>` +
+      '</Activity></Activities></TrainingCenterDatabase>'
+    )).toEqual([false, false, true, true]);
+  });
+
+  it('marks the first point of each later KML line', () => {
+    expect(segmentStarts('ride.kml',
+      '<kml><Placemark><MultiGeometry>' +
+      '<LineString><coordinates>7,45 7,45.01</coordinates></LineString>' +
+      '<LineString><coordinates>7,46 7,46.01</coordinates></LineString>' +
+      '</MultiGeometry></Placemark></kml>'
+    )).toEqual([false, false, true, false]);
+  });
+
+  it('marks the first point of each later GeoJSON line', () => {
+    expect(segmentStarts('ride.geojson', JSON.stringify({
+      type: 'MultiLineString',
+      coordinates: [[[7, 45], [7, 45.01]], [[7, 46], [7, 46.01]]]
+    }))).toEqual([false, false, true, false]);
+  });
+});
+
+describe('validateRouteFile', () => {
+  it('checks the extension and filename before reading', () => {
+    expect(validateRouteFile(new File(['x'], 'ride.gpx')).isValid).toBe(true);
+    expect(validateRouteFile(new File(['x'], 'ride.exe'))).toMatchObject({ isValid: false, code: 'BAD_EXTENSION' });
+    expect(validateRouteFile(new File(['x'], '../ride.gpx'))).toMatchObject({ isValid: false, code: 'BAD_FILENAME' });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Route importers
+ * Picks a parser by file extension and applies the GPXValidator limits to every format
+ */
+
+import { GPXValidationError, GPXValidator, type GPXValidationResult } from '../gpxValidator';
+import { fitImporter } from './fit';
+import { geojsonImporter } from './geojson';
+import { gpxImporter } from './gpx';
+import { kmlImporter } from './kml';
+import { tcxImporter } from './tcx';
+import type { ParsedRoute, RouteImporter, RouteParseOptions, RouteTrackSummary } from './types';
+import { validateTrack } from './validation';
+
+export type {
+  ParsedRoute,
+  RouteImporter,
+  RouteParseOptions,
+  RouteParseProgress,
+  RouteParseResult,
+  RouteTrackSummary
+} from './types';
+
+// New formats only need an entry here
+export const ROUTE_IMPORTERS: RouteImporter[] = [gpxImporter, tcxImporter, fitImporter, kmlImporter, geojsonImporter];
+
+// For the file input's accept attribute, e.g. ".gpx,.tcx,.fit,.kml,.geojson,.json"
+export const ACCEPTED_EXTENSIONS = ROUTE_IMPORTERS.flatMap(importer => importer.extensions).join(',');
+
+export const SUPPORTED_FORMATS = ROUTE_IMPORTERS.map(importer => importer.format).join(', ');
+
+export function getImporter(filename: string): RouteImporter | null {
+  const lower = filename.toLowerCase();
+  return ROUTE_IMPORTERS.find(importer => importer.extensions.some(extension => lower.endsWith(extension))) || null;
+}
+
+/**
+ * Checks a file's size, name and extension before it is read
+ */
+export function validateRouteFile(file: File): GPXValidationResult {
+  if (file.size > GPXValidator.MAX_FILE_SIZE) {
+    return {
+      isValid: false,
+      code: 'FILE_TOO_LARGE',
+      error: `File too large. Maximum size is ${GPXValidator.MAX_FILE_SIZE / (1024 * 1024)}MB`
+    };
+  }
+
+  const importer = getImporter(file.name);
+  if (!importer) {
+    return {
+      isValid: false,
+      code: 'BAD_EXTENSION',
+      error: `Unsupported file type. Upload a ${SUPPORTED_FORMATS} file`
+    };
+  }
+
+  if (!GPXValidator.isValidFilename(file.name, importer.extensions)) {
+    return {
+      isValid: false,
+      code: 'BAD_FILENAME',
+      error: 'Invalid filename. Only alphanumeric characters, hyphens, underscores, and dots are allowed'
+    };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Parses file contents that have already passed validateRouteFile, checking every point against the limits.
+ * In files with several tracks, trackIndex picks the one to return as the route.
+ */
+export function parseRouteContent(
+  filename: string,
+  content: ArrayBuffer,
+  options: RouteParseOptions = {},
+  onProgress?: (fraction: number) => void
+): ParsedRoute {
+  const { trackIndex = 0, repair = false } = options;
+  const importer = getImporter(filename);
+  if (!importer) {
+    throw new GPXValidationError({ code: 'BAD_EXTENSION', message: `Unsupported file type. Upload a ${SUPPORTED_FORMATS} file` });
+  }
+
+  let route = importer.parse(content, onProgress);
+  if (route.tracks || trackIndex > 0) {
+    const track = route.tracks?.[trackIndex];
+    if (!track) {
+      throw new GPXValidationError({ code: 'TRACK_NOT_FOUND', message: 'Track not found in file' });
+    }
+    route = { ...route, name: track.name || route.name, points: track.points, lines: track.lines };
+  }
+
+  const { points, waypoints, repairs } = validateTrack(route, importer.format, repair);
+  if (repairs.length === 0) return route;
+
+  const removedPoints = repairs.filter(issue => issue.pointIndex !== undefined).length;
+  const removedWaypoints = repairs.length - removedPoints;
+  return {
+    ...route,
+    points,
+    waypoints,
+    // Lines no longer match the points once bad ones are dropped
+    lines: undefined,
+    waypointLines: undefined,
+    repairs,
+    warnings: [
+      ...(route.warnings || []),
+      ...(removedPoints > 0 ? [`Removed ${removedPoints} invalid track point${removedPoints === 1 ? '' : 's'}`] : []),
+      ...(removedWaypoints > 0 ? [`Removed ${removedWaypoints} invalid waypoint${removedWaypoints === 1 ? '' : 's'}`] : [])
+    ]
+  };
+}
+
+export function summarizeTracks(route: ParsedRoute): RouteTrackSummary[] {
+  return (route.tracks || []).map(track => ({ name: track.name, type: track.type, points: track.points.length }));
+}
+
+/**
+ * Validates and parses a route file of any supported format, throwing a GPXValidationError with a rider-facing message
+ */
+export async function importRouteFile(file: File, options: RouteParseOptions = {}): Promise<ParsedRoute> {
+  const fileValidation = validateRouteFile(file);
+  if (!fileValidation.isValid) {
+    throw new GPXValidationError({ code: fileValidation.code || 'BAD_FORMAT', message: fileValidation.error || 'Invalid route file' });
+  }
+
+  return parseRouteContent(file.name, await file.arrayBuffer(), options);
+}
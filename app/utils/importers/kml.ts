@@ -0,0 +1,143 @@
+/**
+ * KML importer for LineString and gx:Track routes, with Point placemarks as waypoints
+ * Parses in a single pass with the DOM-free scanner, so it also runs in the route Web Worker and API.
+ */
+
+import { GPXValidationError } from '../gpxValidator';
+import type { RouteWaypoint, TrackPoint } from '../routeAnalysis';
+import type { ParsedRoute, RouteImporter } from './types';
+import { cleanName, decodeText, DEFAULT_ROUTE_NAME } from './validation';
+import { localName, scanXml } from './xmlScanner';
+
+// Placemark children whose text names or classifies it
+const PLACEMARK_FIELDS = new Set(['name', 'styleUrl', 'description']);
+
+// Points and the file line each was read from
+interface KmlPath {
+  points: TrackPoint[];
+  lines: number[];
+}
+
+interface Placemark {
+  line: number;
+  fields: Record<string, string>;
+  paths: KmlPath[]; // one per LineString or gx:Track, in document order
+  point: TrackPoint | null;
+}
+
+// KML tuples are "lon,lat[,alt]" separated by whitespace, often one per line from firstLine on
+function parseCoordinates(text: string, firstLine: number): KmlPath {
+  const path: KmlPath = { points: [], lines: [] };
+  text.split('\n').forEach((row, offset) => {
+    row.trim().split(/\s+/).filter(Boolean).forEach(tuple => {
+      const [lon, lat, ele] = tuple.split(',').map(parseFloat);
+      path.points.push({ lat, lon, ele: Number.isFinite(ele) ? ele : 0 });
+      path.lines.push(firstLine + offset);
+    });
+  });
+  return path;
+}
+
+function parseKML(content: ArrayBuffer, onProgress?: (fraction: number) => void): ParsedRoute {
+  const text = decodeText(content);
+  const points: TrackPoint[] = [];
+  const lines: number[] = [];
+  const waypoints: RouteWaypoint[] = [];
+  const waypointLines: number[] = [];
+  const path: string[] = [];
+  let routeName = '';
+  let documentName: string | null = null;
+
+  // The placemark being read and the named element inside it
+  let placemark: Placemark | null = null;
+  let field: string | null = null;
+  let fieldText = '';
+  let fieldLine = 0;
+
+  // Each LineString or gx:Track after the first starts a new segment, so the gap between them is not ridden
+  const addPath = ({ points: pathPoints, lines: pathLines }: KmlPath) => {
+    pathPoints.forEach((point, index) => {
+      points.push(index === 0 && points.length > 0 ? { ...point, segmentStart: true } : point);
+      lines.push(pathLines[index]);
+    });
+  };
+
+  scanXml(text, {
+    openTag: (qualifiedName, _attributes, line) => {
+      const name = localName(qualifiedName);
+      const parent = path[path.length - 1];
+      if (path.length === 0 && name !== 'kml') {
+        throw new GPXValidationError({ code: 'BAD_ROOT', message: 'Invalid KML file: missing kml root element' });
+      }
+      path.push(name);
+
+      if (name === 'Placemark') {
+        placemark = { line, fields: {}, paths: [], point: null };
+      } else if (placemark && name === 'Track') {
+        // gx:Track stores one "lon lat alt" per gx:coord element
+        placemark.paths.push({ points: [], lines: [] });
+      }
+
+      if (
+        (placemark && parent === 'Placemark' && PLACEMARK_FIELDS.has(name)) ||
+        (placemark && name === 'coordinates' && (parent === 'LineString' || parent === 'Point')) ||
+        (placemark && name === 'coord' && parent === 'Track') ||
+        (name === 'name' && parent === 'Document' && documentName === null)
+      ) {
+        field = name;
+        fieldText = '';
+        fieldLine = line;
+      }
+    },
+    text: value => {
+      if (field) fieldText += value;
+    },
+    closeTag: qualifiedName => {
+      const name = localName(qualifiedName);
+      path.pop();
+      const parent = path[path.length - 1];
+
+      if (name === field) {
+        if (!placemark) {
+          documentName = fieldText;
+        } else if (name === 'coordinates' && parent === 'LineString') {
+          placemark.paths.push(parseCoordinates(fieldText, fieldLine));
+        } else if (name === 'coordinates') {
+          placemark.point = placemark.point || parseCoordinates(fieldText, fieldLine).points[0] || null;
+        } else if (name === 'coord') {
+          const [lon, lat, ele] = fieldText.trim().split(/\s+/).map(parseFloat);
+          const track = placemark.paths[placemark.paths.length - 1];
+          track.points.push({ lat, lon, ele: Number.isFinite(ele) ? ele : 0 });
+          track.lines.push(fieldLine);
+        } else if (!(name in placemark.fields)) {
+          placemark.fields[name] = fieldText.trim();
+        }
+        field = null;
+      } else if (placemark && name === 'Placemark') {
+        const { name: placemarkName = '', styleUrl = '', description = '' } = placemark.fields;
+        if (placemark.paths.length > 0) {
+          routeName = routeName || placemarkName;
+          placemark.paths.forEach(addPath);
+        } else if (placemark.point) {
+          waypoints.push({
+            lat: placemark.point.lat,
+            lon: placemark.point.lon,
+            name: cleanName(placemarkName),
+            // Style names like "#water-icon" often say what kind of stop it is
+            symbol: cleanName(`${styleUrl.replace(/^#/, '')} ${description}`)
+          });
+          waypointLines.push(placemark.line);
+        }
+        placemark = null;
+      }
+    }
+  }, onProgress);
+
+  return { name: cleanName(routeName || documentName || '', DEFAULT_ROUTE_NAME), points, lines, waypoints, waypointLines };
+}
+
+export const kmlImporter: RouteImporter = {
+  format: 'KML',
+  extensions: ['.kml'],
+  parse: parseKML
+};
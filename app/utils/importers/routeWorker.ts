@@ -0,0 +1,44 @@
+/**
+ * Route parsing Web Worker
+ * Reads, parses and analyzes an uploaded route off the main thread, posting progress as it goes
+ */
+
+import { GPXValidator } from '../gpxValidator';
+import { analyzeTrack } from '../routeAnalysis';
+import { parseRouteContent, summarizeTracks } from './index';
+import type { RouteWorkerMessage, RouteWorkerRequest } from './types';
+
+const worker = self as unknown as Worker;
+const post = (message: RouteWorkerMessage) => worker.postMessage(message);
+
+worker.onmessage = async (event: MessageEvent<RouteWorkerRequest>) => {
+  const { file, trackIndex = 0, repair = false } = event.data;
+  try {
+    post({ type: 'progress', stage: 'reading', progress: 0 });
+    const content = await file.arrayBuffer();
+    const parsed = parseRouteContent(
+      file.name,
+      content,
+      { trackIndex, repair },
+      progress => post({ type: 'progress', stage: 'parsing', progress })
+    );
+
+    post({ type: 'progress', stage: 'analyzing', progress: 0 });
+    const route = analyzeTrack(parsed.name, parsed.points, parsed.waypoints);
+    post({
+      type: 'result',
+      validation: { isValid: true, warnings: parsed.warnings, repairs: parsed.repairs },
+      route,
+      tracks: summarizeTracks(parsed),
+      trackIndex
+    });
+  } catch (error) {
+    post({
+      type: 'result',
+      validation: GPXValidator.fromError(error),
+      route: null,
+      tracks: [],
+      trackIndex
+    });
+  }
+};
@@ -0,0 +1,101 @@
+/**
+ * Route parsing client
+ * Runs the route Web Worker for an upload, falling back to the main thread where workers are unavailable
+ */
+
+import { GPXValidator } from '../gpxValidator';
+import { analyzeTrack } from '../routeAnalysis';
+import { parseRouteContent, summarizeTracks } from './index';
+import type {
+  RouteParseOptions,
+  RouteParseProgress,
+  RouteParseResult,
+  RouteWorkerMessage,
+  RouteWorkerRequest
+} from './types';
+
+export interface RouteParseTask {
+  result: Promise<RouteParseResult | null>; // null once cancelled
+  cancel: () => void;
+}
+
+const failed = (error: unknown, trackIndex: number): RouteParseResult => ({
+  validation: GPXValidator.fromError(error),
+  route: null,
+  tracks: [],
+  trackIndex
+});
+
+function parseOnMainThread(
+  file: File,
+  options: RouteParseOptions,
+  onProgress: (progress: RouteParseProgress) => void
+): RouteParseTask {
+  const trackIndex = options.trackIndex ?? 0;
+  let cancelled = false;
+  const result = (async () => {
+    try {
+      onProgress({ stage: 'reading', progress: 0 });
+      const content = await file.arrayBuffer();
+      if (cancelled) return null;
+      onProgress({ stage: 'parsing', progress: 0 });
+      const parsed = parseRouteContent(file.name, content, options);
+      return {
+        validation: { isValid: true, warnings: parsed.warnings, repairs: parsed.repairs },
+        route: analyzeTrack(parsed.name, parsed.points, parsed.waypoints),
+        tracks: summarizeTracks(parsed),
+        trackIndex
+      };
+    } catch (error) {
+      return failed(error, trackIndex);
+    }
+  })();
+
+  return {
+    result: result.then(value => (cancelled ? null : value)),
+    cancel: () => { cancelled = true; }
+  };
+}
+
+/**
+ * Parses and analyzes a route file that has passed validateRouteFile, picking trackIndex in files with
+ * several tracks. With repair set, invalid points are dropped and listed instead of failing the file.
+ * Cancelling terminates the worker and resolves the result with null.
+ */
+export function parseRouteFile(
+  file: File,
+  options: RouteParseOptions,
+  onProgress: (progress: RouteParseProgress) => void
+): RouteParseTask {
+  if (typeof Worker === 'undefined') {
+    return parseOnMainThread(file, options, onProgress);
+  }
+
+  const trackIndex = options.trackIndex ?? 0;
+  const worker = new Worker(new URL('./routeWorker.ts', import.meta.url));
+  let settle: (value: RouteParseResult | null) => void = () => {};
+  const result = new Promise<RouteParseResult | null>(resolve => {
+    settle = value => {
+      worker.terminate();
+      resolve(value);
+    };
+  });
+
+  worker.onmessage = (event: MessageEvent<RouteWorkerMessage>) => {
+    const message = event.data;
+    if (message.type === 'progress') {
+      onProgress({ stage: message.stage, progress: message.progress });
+    } else {
+      settle({ validation: message.validation, route: message.route, tracks: message.tracks, trackIndex: message.trackIndex });
+    }
+  };
+  worker.onerror = event => {
+    event.preventDefault();
+    settle(failed(new Error('Failed to parse route file'), trackIndex));
+  };
+
+  const request: RouteWorkerRequest = { file, ...options };
+  worker.postMessage(request);
+
+  return { result, cancel: () => settle(null) };
+}
@@ -0,0 +1,125 @@
+/**
+ * Garmin Training Center (TCX) importer for courses and recorded activities
+ * Parses in a single pass with the DOM-free scanner, so it also runs in the route Web Worker and API.
+ */
+
+import { GPXValidationError } from '../gpxValidator';
+import type { RouteWaypoint, TrackPoint } from '../routeAnalysis';
+import type { ParsedRoute, RouteImporter } from './types';
+import { cleanName, decodeText, DEFAULT_ROUTE_NAME, parseTimestamp } from './validation';
+import { localName, scanXml } from './xmlScanner';
+
+// Child elements whose text is read from a Trackpoint or CoursePoint
+const POINT_FIELDS = new Set(['LatitudeDegrees', 'LongitudeDegrees', 'AltitudeMeters', 'Time', 'Name', 'PointType']);
+
+function parseTCX(content: ArrayBuffer, onProgress?: (fraction: number) => void): ParsedRoute {
+  const text = decodeText(content);
+  const points: TrackPoint[] = [];
+  const lines: number[] = [];
+  const waypoints: RouteWaypoint[] = [];
+  const waypointLines: number[] = [];
+  const path: string[] = [];
+  let lastElevation = 0;
+  // Each Track after the first (a new lap, or recording resumed after a pause) starts a new segment
+  let segmentStart = false;
+  // Named after the first Course, or the sport and start of the first recorded Activity
+  const title: { course: string | null; activity: { sport: string; id: string } | null } = { course: null, activity: null };
+
+  // The Trackpoint or CoursePoint being read and the named element inside it
+  let point: { hasPosition: boolean; line: number; fields: Record<string, string> } | null = null;
+  let field: string | null = null;
+  let fieldText = '';
+
+  scanXml(text, {
+    openTag: (qualifiedName, attributes, line) => {
+      const name = localName(qualifiedName);
+      const parent = path[path.length - 1];
+      if (path.length === 0 && name !== 'TrainingCenterDatabase') {
+        throw new GPXValidationError({ code: 'BAD_ROOT', message: 'Invalid TCX file: missing TrainingCenterDatabase root element' });
+      }
+      path.push(name);
+
+      if (name === 'Trackpoint' || name === 'CoursePoint') {
+        point = { hasPosition: false, line, fields: {} };
+      } else if (name === 'Track') {
+        segmentStart = points.length > 0;
+      } else if (name === 'Position' && point) {
+        point.hasPosition = true;
+      } else if (name === 'Course' && title.course === null) {
+        title.course = '';
+      } else if (name === 'Activity' && !title.activity) {
+        title.activity = { sport: attributes.Sport || 'Ride', id: '' };
+      }
+
+      if (
+        (point && POINT_FIELDS.has(name) && !(name in point.fields)) ||
+        (name === 'Name' && parent === 'Course') ||
+        (name === 'Id' && parent === 'Activity')
+      ) {
+        field = name;
+        fieldText = '';
+      }
+    },
+    text: value => {
+      if (field) fieldText += value;
+    },
+    closeTag: qualifiedName => {
+      const name = localName(qualifiedName);
+      path.pop();
+      const parent = path[path.length - 1];
+
+      if (name === field) {
+        if (point) {
+          point.fields[field] = fieldText.trim();
+        } else if (parent === 'Course' && !title.course) {
+          title.course = fieldText.trim();
+        } else if (parent === 'Activity' && title.activity && !title.activity.id) {
+          title.activity.id = fieldText.trim();
+        }
+        field = null;
+      } else if (point && name === 'Trackpoint') {
+        const { LatitudeDegrees, LongitudeDegrees, AltitudeMeters, Time } = point.fields;
+        // Trackpoints without a position (e.g. sensor-only samples while paused) are skipped
+        if (point.hasPosition) {
+          // Some devices drop altitude on odd samples, so carry the last reading forward
+          if (AltitudeMeters) lastElevation = parseFloat(AltitudeMeters);
+          const time = parseTimestamp(Time || '');
+          points.push({
+            lat: parseFloat(LatitudeDegrees ?? ''),
+            lon: parseFloat(LongitudeDegrees ?? ''),
+            ele: lastElevation,
+            ...(time !== undefined && { time }),
+            ...(segmentStart && { segmentStart })
+          });
+          lines.push(point.line);
+          segmentStart = false;
+        }
+        point = null;
+      } else if (point && name === 'CoursePoint') {
+        // Course points carry a PointType such as Food, Water or Left, which classifies them like GPX symbols
+        const { LatitudeDegrees, LongitudeDegrees, Name, PointType } = point.fields;
+        if (point.hasPosition) {
+          waypoints.push({
+            lat: parseFloat(LatitudeDegrees ?? ''),
+            lon: parseFloat(LongitudeDegrees ?? ''),
+            name: cleanName(Name || ''),
+            symbol: cleanName(PointType || '')
+          });
+          waypointLines.push(point.line);
+        }
+        point = null;
+      }
+    }
+  }, onProgress);
+
+  const { course, activity } = title;
+  const name = course !== null ? course : activity ? `${activity.sport} ${activity.id.substring(0, 10)}` : '';
+
+  return { name: cleanName(name, DEFAULT_ROUTE_NAME), points, lines, waypoints, waypointLines };
+}
+
+export const tcxImporter: RouteImporter = {
+  format: 'TCX',
+  extensions: ['.tcx'],
+  parse: parseTCX
+};
@@ -0,0 +1,66 @@
+/**
+ * Route importer contract
+ * Every supported file format parses into the same track representation before route analysis
+ */
+
+import type { GPXValidationIssue, GPXValidationResult } from '../gpxValidator';
+import type { RouteData, RouteWaypoint, TrackPoint } from '../routeAnalysis';
+
+export interface ParsedTrack {
+  name: string;
+  type: 'track' | 'route'; // recorded or drawn track, or a planner's route of turn points
+  points: TrackPoint[];
+  lines?: number[]; // 1-based line of each point in XML files, to point riders at bad ones
+}
+
+export interface ParsedRoute {
+  name: string;
+  points: TrackPoint[]; // the selected track
+  waypoints: RouteWaypoint[]; // cafés, water stops and course points along the route
+  lines?: number[]; // 1-based line of each point in XML files
+  waypointLines?: number[];
+  warnings?: string[]; // problems that did not stop the import
+  tracks?: ParsedTrack[]; // every track in files that hold several, to pick from
+  repairs?: GPXValidationIssue[]; // invalid points dropped in repair mode
+}
+
+export interface RouteImporter {
+  format: string; // shown to riders, e.g. "TCX"
+  extensions: string[]; // lower case, with the leading dot
+  // Validates the raw file contents and parses them, throwing a GPXValidationError with a rider-facing message
+  parse: (content: ArrayBuffer, onProgress?: (fraction: number) => void) => ParsedRoute;
+}
+
+export interface RouteParseOptions {
+  trackIndex?: number; // which track to use in files with several
+  repair?: boolean; // drop invalid points and report them instead of rejecting the file
+}
+
+export type RouteParseStage = 'reading' | 'parsing' | 'analyzing';
+
+export interface RouteParseProgress {
+  stage: RouteParseStage;
+  progress: number; // 0-1 within the stage
+}
+
+export interface RouteTrackSummary {
+  name: string;
+  type: ParsedTrack['type'];
+  points: number;
+}
+
+export interface RouteParseResult {
+  validation: GPXValidationResult;
+  route: RouteData | null; // null when validation failed
+  tracks: RouteTrackSummary[]; // empty unless the file holds several tracks
+  trackIndex: number; // which of them was analyzed
+}
+
+// Messages between the page and the route Web Worker
+export interface RouteWorkerRequest extends RouteParseOptions {
+  file: File;
+}
+
+export type RouteWorkerMessage =
+  | ({ type: 'progress' } & RouteParseProgress)
+  | ({ type: 'result' } & RouteParseResult);
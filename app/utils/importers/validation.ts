@@ -0,0 +1,114 @@
+/**
+ * Validation shared by the route importers
+ * Applies the same limits as GPXValidator to every format
+ */
+
+import { GPXValidationError, GPXValidator, type GPXValidationIssue } from '../gpxValidator';
+import type { RouteWaypoint, TrackPoint } from '../routeAnalysis';
+import type { ParsedRoute } from './types';
+
+export interface TrackValidation {
+  points: TrackPoint[];
+  waypoints: RouteWaypoint[];
+  repairs: GPXValidationIssue[]; // invalid points that were dropped
+}
+
+export const DEFAULT_ROUTE_NAME = 'Uploaded Route';
+const MAX_WAYPOINTS = 1000;
+const MAX_NAME_LENGTH = 60;
+
+/**
+ * Decodes file contents as UTF-8, rejecting anything that is not valid UTF-8 text
+ */
+export function decodeText(content: ArrayBuffer): string {
+  if (content.byteLength > GPXValidator.MAX_CONTENT_SIZE) {
+    throw new GPXValidationError({
+      code: 'CONTENT_TOO_LARGE',
+      message: `Content too large. Maximum content size is ${GPXValidator.MAX_CONTENT_SIZE / (1024 * 1024)}MB`
+    });
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(content);
+  } catch {
+    throw new GPXValidationError({ code: 'BAD_ENCODING', message: 'Invalid text encoding. File must be UTF-8 encoded' });
+  }
+}
+
+export function cleanName(text: string, fallback: string = ''): string {
+  return GPXValidator.sanitizeText(text).substring(0, MAX_NAME_LENGTH) || fallback;
+}
+
+/**
+ * Parses an ISO 8601 timestamp to ms since the epoch, or undefined when it is missing or malformed
+ */
+export function parseTimestamp(text: string): number | undefined {
+  if (!text) return undefined;
+  const time = Date.parse(text);
+  return Number.isFinite(time) ? time : undefined;
+}
+
+function findPointIssue(point: TrackPoint, index: number, line?: number): GPXValidationIssue | null {
+  if (!GPXValidator.isValidCoordinate(point.lat, point.lon)) {
+    return { code: 'BAD_COORDINATE', message: `Invalid coordinates in track point ${index + 1}`, pointIndex: index, line };
+  }
+  if (!Number.isFinite(point.ele)) {
+    return { code: 'BAD_ELEVATION', message: `Invalid elevation in track point ${index + 1}`, pointIndex: index, line };
+  }
+  return null;
+}
+
+/**
+ * Checks every parsed point against the GPX limits and coordinate ranges, reporting the file line of
+ * a bad point where the importer recorded it. In repair mode invalid points are dropped and reported
+ * instead of rejecting the file.
+ */
+export function validateTrack(route: ParsedRoute, format: string, repair: boolean = false): TrackValidation {
+  const { points, waypoints } = route;
+  if (points.length === 0) {
+    throw new GPXValidationError({ code: 'NO_POINTS', message: `No track points found in ${format} file` });
+  }
+  if (points.length > GPXValidator.MAX_TRACK_POINTS) {
+    throw new GPXValidationError({
+      code: 'TOO_MANY_POINTS',
+      message: `Too many track points. Maximum allowed is ${GPXValidator.MAX_TRACK_POINTS}`
+    });
+  }
+  if (waypoints.length > MAX_WAYPOINTS) {
+    throw new GPXValidationError({ code: 'TOO_MANY_WAYPOINTS', message: `Too many waypoints. Maximum allowed is ${MAX_WAYPOINTS}` });
+  }
+
+  const repairs: GPXValidationIssue[] = [];
+  const validPoints: TrackPoint[] = [];
+  // A dropped point that started a segment hands the gap on to the next point kept
+  let segmentStart = false;
+  points.forEach((point, index) => {
+    const issue = findPointIssue(point, index, route.lines?.[index]);
+    if (issue) {
+      if (!repair) throw new GPXValidationError(issue);
+      repairs.push(issue);
+      segmentStart = segmentStart || Boolean(point.segmentStart);
+      return;
+    }
+    validPoints.push(segmentStart ? { ...point, segmentStart } : point);
+    segmentStart = false;
+  });
+
+  const validWaypoints = waypoints.filter((waypoint, index) => {
+    if (GPXValidator.isValidCoordinate(waypoint.lat, waypoint.lon)) return true;
+    const issue: GPXValidationIssue = {
+      code: 'BAD_COORDINATE',
+      message: `Invalid coordinates in waypoint ${index + 1}`,
+      waypointIndex: index,
+      line: route.waypointLines?.[index]
+    };
+    if (!repair) throw new GPXValidationError(issue);
+    repairs.push(issue);
+    return false;
+  });
+
+  if (validPoints.length === 0) {
+    throw new GPXValidationError({ code: 'NO_POINTS', message: `No valid track points found in ${format} file` });
+  }
+
+  return { points: validPoints, waypoints: validWaypoints, repairs };
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { GPXValidationError } from '../gpxValidator';
+import { localName, scanXml } from './xmlScanner';
+
+function scanError(text: string): GPXValidationError {
+  try {
+    scanXml(text, {});
+  } catch (error) {
+    if (error instanceof GPXValidationError) return error;
+    throw error;
+  }
+  throw new Error('Expected the scan to fail');
+}
+
+describe('scanXml', () => {
+  it('reports tags with their attributes and lines, and decoded text', () => {
+    const events: string[] = [];
+    scanXml('<?xml version="1.0"?>\n<gpx version="1.1">\n  <name>Tom &amp; Jerry&#33;</name>\n  <wpt lat="1" lon=\'2\'/>\n</gpx>', {
+      openTag: (name, attributes, line) => events.push(`open ${name} ${JSON.stringify(attributes)} ${line}`),
+      closeTag: name => events.push(`close ${name}`),
+      text: text => text.trim() && events.push(`text ${text}`)
+    });
+    expect(events).toEqual([
+      'open gpx {"version":"1.1"} 2',
+      'open name {} 3',
+      'text Tom & Jerry!',
+      'close name',
+      'open wpt {"lat":"1","lon":"2"} 4',
+      'close wpt',
+      'close gpx'
+    ]);
+  });
+
+  it('passes CDATA through and skips comments', () => {
+    const texts: string[] = [];
+    scanXml('<a><!-- note --><![CDATA[<b> & c]]></a>', { text: text => texts.push(text) });
+    expect(texts).toEqual(['<b> & c']);
+  });
+
+  it('reports progress up to completion', () => {
+    const fractions: number[] = [];
+    scanXml('<a/>', {}, fraction => fractions.push(fraction));
+    expect(fractions).toEqual([1]);
+  });
+
+  it('rejects mismatched and unclosed tags on the line they occur', () => {
+    expect(scanError('<a>\n<b>\n</a>')).toMatchObject({ code: 'MALFORMED_XML', line: 3 });
+    expect(scanError('<a>\n<b>')).toMatchObject({ code: 'MALFORMED_XML', line: 2 });
+  });
+
+  it('rejects bare ampersands, undefined entities and content after the root', () => {
+    expect(scanError('<a>salt & pepper</a>').code).toBe('MALFORMED_XML');
+    expect(scanError('<a>&nbsp;</a>').code).toBe('MALFORMED_XML');
+    expect(scanError('<a/><b/>').code).toBe('MALFORMED_XML');
+    expect(scanError('<a/>trailing').code).toBe('MALFORMED_XML');
+  });
+
+  it('rejects DOCTYPE declarations and scripts', () => {
+    expect(scanError('<!DOCTYPE a [<!ENTITY x "y">]><a/>').code).toBe('DANGEROUS_CONTENT');
+    expect(scanError('<a>\n<svg:script/></a>')).toMatchObject({ code: 'DANGEROUS_CONTENT', line: 2 });
+    expect(scanError('<a href="javascript:alert(1)"/>').code).toBe('DANGEROUS_CONTENT');
+  });
+
+  it('rejects documents nested past the limit', () => {
+    expect(scanError('<a>'.repeat(1001)).code).toBe('TOO_DEEPLY_NESTED');
+  });
+
+  it('gives handler errors the line of the tag being handled', () => {
+    let error: unknown;
+    try {
+      scanXml('<a>\n\n<b/></a>', {
+        openTag: name => {
+          if (name === 'b') throw new GPXValidationError({ code: 'BAD_FORMAT', message: 'bad' });
+        }
+      });
+    } catch (caught) {
+      error = caught;
+    }
+    expect(error).toMatchObject({ code: 'BAD_FORMAT', line: 3 });
+  });
+});
+
+describe('localName', () => {
+  it('drops the namespace prefix', () => {
+    expect(localName('gpxtpx:hr')).toBe('hr');
+    expect(localName('trkpt')).toBe('trkpt');
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * DOM-free XML scanner
+ * Walks a document once, applying the GPXValidator safety checks as it goes and handing elements
+ * and text to callbacks. Runs anywhere DOMParser does not: Web Workers and API routes.
+ */
+
+import { GPXValidationError, GPXValidator, type GPXErrorCode } from '../gpxValidator';
+
+export interface XmlScanHandlers {
+  openTag?: (name: string, attributes: Record<string, string>, line: number) => void; // 1-based line of the tag
+  closeTag?: (name: string) => void;
+  text?: (text: string) => void;
+}
+
+// Progress is reported roughly this often, in characters
+const PROGRESS_INTERVAL = 256 * 1024;
+
+const NAME_PATTERN = /^[A-Za-z_][\w.:-]*$/;
+const ATTRIBUTE_PATTERN = /([^\s=/]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+// Bare ampersands and undefined entities make a document malformed, as they do for DOMParser
+const INVALID_REFERENCE = /&(?!(?:#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);)/i;
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+const MESSAGES: Partial<Record<GPXErrorCode, string>> = {
+  MALFORMED_XML: 'Invalid XML format',
+  DANGEROUS_CONTENT: 'File contains potentially dangerous content and cannot be processed',
+  TOO_DEEPLY_NESTED: 'XML structure too deeply nested'
+};
+
+/**
+ * A scanner failure; scanXml adds the line it happened on
+ */
+function failure(code: GPXErrorCode): GPXValidationError {
+  return new GPXValidationError({ code, message: MESSAGES[code] || 'Invalid XML format' });
+}
+
+/**
+ * Element name without its namespace prefix, e.g. "gpxtpx:hr" → "hr"
+ */
+export function localName(name: string): string {
+  return name.substring(name.indexOf(':') + 1);
+}
+
+function checkText(raw: string): void {
+  if (GPXValidator.hasDangerousContent(raw)) throw failure('DANGEROUS_CONTENT');
+  if (INVALID_REFERENCE.test(raw)) throw failure('MALFORMED_XML');
+}
+
+function decodeEntities(raw: string): string {
+  if (!raw.includes('&')) return raw;
+  return raw.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (_, entity: string) => {
+    if (entity[0] !== '#') return ENTITIES[entity];
+    const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.substring(2), 16) : parseInt(entity.substring(1), 10);
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '';
+  });
+}
+
+/**
+ * Index of the ">" closing a start tag, skipping any inside quoted attribute values
+ */
+function findTagEnd(text: string, from: number): number {
+  let quote = '';
+  for (let i = from; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Scans an XML document in a single pass, throwing a GPXValidationError with the offending line when
+ * it is malformed, too deeply nested or contains dangerous constructs. Errors thrown by the handlers
+ * get the line of the tag being handled.
+ */
+export function scanXml(text: string, handlers: XmlScanHandlers, onProgress?: (fraction: number) => void): void {
+  if (text.length > GPXValidator.MAX_CONTENT_SIZE) {
+    throw new GPXValidationError({
+      code: 'CONTENT_TOO_LARGE',
+      message: `Content too large. Maximum content size is ${GPXValidator.MAX_CONTENT_SIZE / (1024 * 1024)}MB`
+    });
+  }
+
+  const stack: string[] = [];
+  let rootClosed = false;
+  let position = 0;
+  let nextProgress = PROGRESS_INTERVAL;
+  // Start of the text or tag being handled, for the line number of an error
+  let current = 0;
+  // Lines are counted as the scan moves forward, so no position is rescanned from the start
+  let line = 1;
+  let nextNewline = text.indexOf('\n');
+  const lineAt = (index: number): number => {
+    while (nextNewline >= 0 && nextNewline < index) {
+      line++;
+      nextNewline = text.indexOf('\n', nextNewline + 1);
+    }
+    return line;
+  };
+
+  const emitText = (raw: string) => {
+    if (stack.length === 0) {
+      if (raw.trim()) throw failure('MALFORMED_XML');
+      return;
+    }
+    checkText(raw);
+    handlers.text?.(decodeEntities(raw));
+  };
+
+  try {
+    while (position < text.length) {
+      if (onProgress && position >= nextProgress) {
+        onProgress(position / text.length);
+        nextProgress = position + PROGRESS_INTERVAL;
+      }
+
+      const start = text.indexOf('<', position);
+      current = position;
+      if (start === -1) {
+        emitText(text.substring(position));
+        break;
+      }
+      if (start > position) emitText(text.substring(position, start));
+      current = start;
+
+      if (text.startsWith('<?', start)) {
+        const end = text.indexOf('?>', start);
+        if (end === -1) throw failure('MALFORMED_XML');
+        if (GPXValidator.hasDangerousContent(text.substring(start, end + 2))) throw failure('DANGEROUS_CONTENT');
+        position = end + 2;
+      } else if (text.startsWith('<!--', start)) {
+        const end = text.indexOf('-->', start);
+        if (end === -1) throw failure('MALFORMED_XML');
+        if (GPXValidator.hasDangerousContent(text.substring(start, end))) throw failure('DANGEROUS_CONTENT');
+        position = end + 3;
+      } else if (text.startsWith('<![CDATA[', start)) {
+        const end = text.indexOf(']]>', start);
+        if (end === -1 || stack.length === 0) throw failure('MALFORMED_XML');
+        const raw = text.substring(start + 9, end);
+        if (GPXValidator.hasDangerousContent(raw)) throw failure('DANGEROUS_CONTENT');
+        handlers.text?.(raw);
+        position = end + 3;
+      } else if (text[start + 1] === '!') {
+        // DOCTYPE and ENTITY declarations are how XXE and entity expansion attacks get in
+        throw failure('DANGEROUS_CONTENT');
+      } else if (text[start + 1] === '/') {
+        const end = text.indexOf('>', start);
+        if (end === -1) throw failure('MALFORMED_XML');
+        const name = text.substring(start + 2, end).trim();
+        if (stack.pop() !== name) throw failure('MALFORMED_XML');
+        if (stack.length === 0) rootClosed = true;
+        handlers.closeTag?.(name);
+        position = end + 1;
+      } else {
+        const end = findTagEnd(text, start + 1);
+        if (end === -1) throw failure('MALFORMED_XML');
+        const selfClosing = text[end - 1] === '/';
+        const content = text.substring(start + 1, selfClosing ? end - 1 : end);
+        const name = content.split(/\s/, 1)[0];
+        if (!NAME_PATTERN.test(name) || rootClosed) throw failure('MALFORMED_XML');
+        if (localName(name).toLowerCase() === 'script') throw failure('DANGEROUS_CONTENT');
+        if (stack.length + 1 > GPXValidator.MAX_NESTED_ELEMENTS) {
+          throw failure('TOO_DEEPLY_NESTED');
+        }
+
+        const attributes: Record<string, string> = {};
+        for (const match of content.substring(name.length).matchAll(ATTRIBUTE_PATTERN)) {
+          const value = match[2] ?? match[3];
+          checkText(value);
+          attributes[match[1]] = decodeEntities(value);
+        }
+
+        stack.push(name);
+        handlers.openTag?.(name, attributes, lineAt(start));
+        if (selfClosing) {
+          stack.pop();
+          if (stack.length === 0) rootClosed = true;
+          handlers.closeTag?.(name);
+        }
+        position = end + 1;
+      }
+    }
+
+    current = text.length;
+    if (stack.length > 0 || !rootClosed) throw failure('MALFORMED_XML');
+  } catch (error) {
+    if (error instanceof GPXValidationError && error.line === undefined) {
+      error.line = lineAt(current);
+    }
+    throw error;
+  }
+  onProgress?.(1);
+}
@@ -0,0 +1,161 @@
+/**
+ * Power and heart-rate intensity model
+ * Converts a target power, heart rate or training zone into energy expenditure and carbohydrate oxidation
+ */
+
+import type { NutritionProfile, RideIntensity } from './fuelingEngine';
+
+export type IntensityTarget =
+  | { kind: 'power'; watts: number }
+  | { kind: 'heartRate'; bpm: number }
+  | { kind: 'zone'; zone: number }; // Coggan power zones 1-6
+
+export interface RideEffort {
+  watts: number; // average power
+  intensityFactor: number; // fraction of FTP
+  kilojoulesPerHour: number; // mechanical work
+  carbOxidation: number; // g/hour of carbohydrate burned
+  carbFraction: number; // share of energy from carbohydrate
+  intensity: RideIntensity; // nearest coarse bucket, for heat, fluid and electrolyte rules
+  description: string; // e.g. "210W (IF 0.84) ≈ 756kJ/h, 66% carbohydrate = 125g/h oxidised"
+  estimatedFtp: boolean; // FTP was not in the profile and had to be estimated
+}
+
+export const POWER_ZONES: Array<{ zone: number; label: string; intensityFactor: number }> = [
+  { zone: 1, label: 'Z1 Recovery', intensityFactor: 0.5 },
+  { zone: 2, label: 'Z2 Endurance', intensityFactor: 0.65 },
+  { zone: 3, label: 'Z3 Tempo', intensityFactor: 0.83 },
+  { zone: 4, label: 'Z4 Threshold', intensityFactor: 0.98 },
+  { zone: 5, label: 'Z5 VO2max', intensityFactor: 1.13 },
+  { zone: 6, label: 'Z6 Anaerobic', intensityFactor: 1.3 }
+];
+
+// Typical average power for the coarse intensity buckets, as a fraction of FTP
+const INTENSITY_FACTORS: Record<RideIntensity, number> = { casual: 0.6, moderate: 0.72, hard: 0.85 };
+
+// Used when the rider has no FTP in their profile (typical trained amateur)
+const DEFAULT_FTP_PER_KG = 2.8;
+
+// Threshold heart rate sits at roughly 90% of max for most riders
+const LTHR_FROM_MAX_HR = 0.9;
+
+// Used when the rider has neither threshold nor max heart rate in their profile
+const DEFAULT_THRESHOLD_HR = 170;
+
+// Same bounds as the survey inputs; anything outside them is treated as missing
+const PROFILE_LIMITS: Record<'ftp' | 'maxHr' | 'thresholdHr', [number, number]> = {
+  ftp: [50, 600],
+  maxHr: [100, 230],
+  thresholdHr: [80, 220]
+};
+
+// %LTHR to %FTP anchor points, from the Coggan heart rate and power zone boundaries
+const HEART_RATE_TO_POWER: Array<[number, number]> = [
+  [0.6, 0.45],
+  [0.68, 0.55],
+  [0.83, 0.75],
+  [0.94, 0.9],
+  [1.05, 1.05],
+  [1.1, 1.2]
+];
+
+// Share of energy from carbohydrate rises steeply with intensity (crossover concept)
+const CARB_FRACTION_BY_IF: Array<[number, number]> = [
+  [0.4, 0.3],
+  [0.55, 0.4],
+  [0.65, 0.5],
+  [0.75, 0.6],
+  [0.85, 0.75],
+  [0.95, 0.9],
+  [1.05, 1]
+];
+
+// ~24% gross efficiency means 1kJ of work costs ~1kcal of metabolic energy
+const KCAL_PER_KJ_WORK = 1;
+const KCAL_PER_GRAM_CARB = 4;
+
+function interpolate(points: Array<[number, number]>, x: number): number {
+  if (x <= points[0][0]) return points[0][1];
+  for (let i = 1; i < points.length; i++) {
+    const [x1, y1] = points[i];
+    if (x <= x1) {
+      const [x0, y0] = points[i - 1];
+      return y0 + ((x - x0) / (x1 - x0)) * (y1 - y0);
+    }
+  }
+  return points[points.length - 1][1];
+}
+
+function profileValue(profile: NutritionProfile | null, field: keyof typeof PROFILE_LIMITS): number | undefined {
+  const value = profile?.[field];
+  const [min, max] = PROFILE_LIMITS[field];
+  return typeof value === 'number' && value >= min && value <= max ? value : undefined;
+}
+
+function toIntensity(intensityFactor: number): RideIntensity {
+  if (intensityFactor < 0.7) return 'casual';
+  return intensityFactor < 0.85 ? 'moderate' : 'hard';
+}
+
+/**
+ * Resolves a power, heart-rate or zone target into energy and carbohydrate demands
+ */
+export function resolveEffort(
+  target: IntensityTarget,
+  profile: NutritionProfile | null,
+  bodyMass: number
+): RideEffort {
+  const profileFtp = profileValue(profile, 'ftp');
+  const estimatedFtp = !profileFtp;
+  const ftp = profileFtp || Math.round(bodyMass * DEFAULT_FTP_PER_KG);
+  const notes = estimatedFtp ? [`est. FTP ${ftp}W`] : [];
+
+  let intensityFactor: number;
+  if (target.kind === 'power') {
+    intensityFactor = target.watts / ftp;
+  } else if (target.kind === 'heartRate') {
+    const profileThresholdHr = profileValue(profile, 'thresholdHr');
+    const maxHr = profileValue(profile, 'maxHr');
+    const thresholdHr = profileThresholdHr || (maxHr ? maxHr * LTHR_FROM_MAX_HR : DEFAULT_THRESHOLD_HR);
+    if (!profileThresholdHr && !maxHr) notes.push(`assumed LTHR ${DEFAULT_THRESHOLD_HR}bpm`);
+    intensityFactor = interpolate(HEART_RATE_TO_POWER, target.bpm / thresholdHr);
+  } else {
+    const zone = POWER_ZONES.find(candidate => candidate.zone === target.zone) || POWER_ZONES[1];
+    intensityFactor = zone.intensityFactor;
+  }
+
+  const watts = target.kind === 'power' ? target.watts : Math.round(intensityFactor * ftp);
+  const kilojoulesPerHour = Math.round(watts * 3.6);
+  const carbFraction = interpolate(CARB_FRACTION_BY_IF, intensityFactor);
+  const carbOxidation = Math.round((kilojoulesPerHour * KCAL_PER_KJ_WORK * carbFraction) / KCAL_PER_GRAM_CARB);
+  const roundedIf = Math.round(intensityFactor * 100) / 100;
+
+  return {
+    watts,
+    intensityFactor: roundedIf,
+    kilojoulesPerHour,
+    carbOxidation,
+    carbFraction: Math.round(carbFraction * 100) / 100,
+    intensity: toIntensity(intensityFactor),
+    description: `${watts}W (IF ${[roundedIf.toFixed(2), ...notes].join(', ')}) ≈ ${kilojoulesPerHour}kJ/h, ` +
+      `${Math.round(carbFraction * 100)}% carbohydrate = ${carbOxidation}g/h oxidised`,
+    estimatedFtp
+  };
+}
+
+/**
+ * Average power for a ride: the target when one is set, otherwise a typical share of FTP for the intensity
+ */
+export function estimateRidePower(
+  intensity: RideIntensity,
+  target: IntensityTarget | null,
+  profile: NutritionProfile | null,
+  bodyMass: number
+): number {
+  if (target) {
+    const effort = resolveEffort(target, profile, bodyMass);
+    if (effort.watts > 0) return effort.watts;
+  }
+  const ftp = profileValue(profile, 'ftp') || Math.round(bodyMass * DEFAULT_FTP_PER_KG);
+  return Math.round(ftp * INTENSITY_FACTORS[intensity]);
+}
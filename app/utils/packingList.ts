@@ -0,0 +1,125 @@
+/**
+ * Pre-ride packing list
+ * Derives what to bring from the final fuel plan and persists the rider's checkmarks until the ride starts
+ */
+
+import type { FuelPlan } from './fuelingEngine';
+
+export interface PackingItem {
+  id: string; // includes the quantity so a changed plan clears stale checkmarks
+  category: 'prep' | 'hydration' | 'fuel' | 'electrolytes' | 'spare';
+  label: string;
+  detail?: string;
+}
+
+export interface PackingInput {
+  plan: FuelPlan;
+  durationMinutes: number;
+  temperature: number; // Fahrenheit
+}
+
+// One spare carb serving per this many minutes of riding, for punctures, detours and headwinds
+const SPARE_INTERVAL_MINUTES = 120;
+
+/**
+ * Builds the packing list for a plan
+ */
+export function buildPackingList({ plan, durationMinutes, temperature }: PackingInput): PackingItem[] {
+  const items: PackingItem[] = [
+    { id: 'prep-meal', category: 'prep', label: 'Overnight oats + fruit bar 2-3 hours before' }
+  ];
+
+  // Food bought along the way rather than carried from the start
+  if (plan.restocks.length > 0) {
+    items.push({
+      id: `prep-restock-${plan.restocks.map(restock => restock.station.id).join('-')}`,
+      category: 'prep',
+      label: `Card or cash for ${plan.restocks.length} restock stop${plan.restocks.length > 1 ? 's' : ''}`,
+      detail: plan.restocks
+        .map(restock => `${restock.station.name}: ${restock.servings.map(serving => serving.label).join(', ')}`)
+        .join(' • ')
+    });
+  }
+
+  // Bottles from the hydration plan, with any refills it relies on
+  const { bottles, refills } = plan.hydration;
+  items.push({
+    id: `bottles-${bottles.count}-${bottles.capacity}`,
+    category: 'hydration',
+    label: `${bottles.count} × ${bottles.capacity}ml bottle${bottles.count > 1 ? 's' : ''}`,
+    detail: refills.length > 0
+      ? `Plan needs ~${plan.totals.fluid}ml - ${refills.length} refill stop${refills.length > 1 ? 's' : ''} on the ride`
+      : `Covers ~${plan.totals.fluid}ml planned fluid`
+  });
+
+  plan.servings.forEach(serving => {
+    const category = serving.product.category === 'electrolyte' ? 'electrolytes' : 'fuel';
+    items.push({
+      id: `${category}-${serving.product.id}-${serving.servings}`,
+      category,
+      label: serving.label,
+      detail: serving.product.category === 'drink-mix' ? 'Pre-mix the first bottle, carry the rest as powder' : undefined
+    });
+  });
+
+  // Spares scale with ride length, using the rider's most-used carb product
+  const mainCarb = plan.servings
+    .filter(serving => serving.product.carbs > 0 && serving.product.category !== 'drink-mix')
+    .sort((a, b) => b.servings - a.servings)[0];
+  const spares = durationMinutes >= 60 ? Math.max(1, Math.round(durationMinutes / SPARE_INTERVAL_MINUTES)) : 0;
+  if (spares > 0) {
+    const name = mainCarb ? mainCarb.product.name : 'energy gel';
+    items.push({
+      id: `spare-carbs-${spares}`,
+      category: 'spare',
+      label: `${spares} spare ${name}${spares > 1 ? 's' : ''}`,
+      detail: 'Contingency for a longer-than-planned ride'
+    });
+  }
+
+  if (temperature > 80 && durationMinutes >= 60) {
+    items.push({
+      id: 'spare-electrolytes',
+      category: 'spare',
+      label: '1 spare electrolyte tab',
+      detail: 'Hot weather backup'
+    });
+  }
+
+  return items;
+}
+
+export class PackingListStorage {
+  private static readonly STORAGE_KEY = 'packingListChecked';
+
+  /**
+   * Gets the ids of checked packing items
+   */
+  static getChecked(): string[] {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      const parsed = stored ? JSON.parse(stored) : [];
+      return Array.isArray(parsed) ? parsed.filter(id => typeof id === 'string') : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Saves the ids of checked packing items
+   */
+  static setChecked(ids: string[]): void {
+    try {
+      localStorage.setItem(this.STORAGE_KEY, JSON.stringify(ids));
+    } catch (error) {
+      console.error('Failed to save packing list:', error);
+    }
+  }
+
+  /**
+   * Clears checkmarks once the ride has started
+   */
+  static clear(): void {
+    localStorage.removeItem(this.STORAGE_KEY);
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Nutrition product catalog
+ * Built-in generic products plus rider-defined custom products stored in localStorage
+ */
+
+export type ProductCategory = 'gel' | 'chew' | 'bar' | 'drink-mix' | 'real-food' | 'electrolyte';
+export type FuelTexture = 'gel' | 'chew' | 'solid' | 'liquid';
+
+export interface NutritionProduct {
+  id: string;
+  name: string;
+  category: ProductCategory;
+  printLabel: string; // short label for the handlebar card
+  servingUnit: string; // e.g. "gel", "bottle", "tab"
+  servingStep: number; // smallest sensible fraction of a serving (1, 0.5, 0.25)
+  carbs: number; // grams per serving
+  fructoseRatio: number | null; // grams fructose per gram glucose (0.8 = 1:0.8), null if unknown
+  sodium: number; // mg per serving
+  caffeine: number; // mg per serving
+  volume: number; // ml per serving (fluid for drinks, product volume otherwise)
+  custom?: boolean;
+}
+
+// Survey options from app/survey/page.tsx
+export const FUEL_PREFERENCES = {
+  gels: 'Energy gels',
+  drinks: 'Sports drinks',
+  bars: 'Energy bars',
+  realFood: 'Real food (bananas, dates)',
+  tabs: 'Electrolyte tablets',
+  chews: 'Energy chews/blocks',
+  homemade: 'Homemade options'
+} as const;
+
+export const CATEGORY_TEXTURES: Record<ProductCategory, FuelTexture> = {
+  'gel': 'gel',
+  'chew': 'chew',
+  'bar': 'solid',
+  'drink-mix': 'liquid',
+  'real-food': 'solid',
+  'electrolyte': 'liquid'
+};
+
+// Which survey preference each category satisfies
+export const CATEGORY_PREFERENCES: Record<ProductCategory, string[]> = {
+  'gel': [FUEL_PREFERENCES.gels],
+  'chew': [FUEL_PREFERENCES.chews],
+  'bar': [FUEL_PREFERENCES.bars],
+  'drink-mix': [FUEL_PREFERENCES.drinks],
+  'real-food': [FUEL_PREFERENCES.realFood, FUEL_PREFERENCES.homemade],
+  'electrolyte': [FUEL_PREFERENCES.tabs]
+};
+
+export const BUILT_IN_PRODUCTS: NutritionProduct[] = [
+  { id: 'gel', name: 'energy gel', category: 'gel', printLabel: 'GEL', servingUnit: 'gel', servingStep: 0.5, carbs: 25, fructoseRatio: 0, sodium: 50, caffeine: 0, volume: 40 },
+  { id: 'gel-dual', name: 'dual-carb gel', category: 'gel', printLabel: 'GEL', servingUnit: 'gel', servingStep: 0.5, carbs: 40, fructoseRatio: 0.8, sodium: 200, caffeine: 0, volume: 60 },
+  { id: 'gel-caffeine', name: 'caffeine gel', category: 'gel', printLabel: 'CAF GEL', servingUnit: 'gel', servingStep: 0.5, carbs: 25, fructoseRatio: 0, sodium: 50, caffeine: 75, volume: 40 },
+  { id: 'chew', name: 'energy chew', category: 'chew', printLabel: 'CHEWS', servingUnit: 'chew', servingStep: 1, carbs: 8, fructoseRatio: 0.5, sodium: 15, caffeine: 0, volume: 0 },
+  { id: 'bar', name: 'energy bar', category: 'bar', printLabel: 'BAR', servingUnit: 'bar', servingStep: 0.5, carbs: 40, fructoseRatio: 0.5, sodium: 100, caffeine: 0, volume: 0 },
+  { id: 'banana', name: 'banana', category: 'real-food', printLabel: 'BANANA', servingUnit: 'banana', servingStep: 0.5, carbs: 27, fructoseRatio: 1, sodium: 0, caffeine: 0, volume: 0 },
+  { id: 'dates', name: 'date', category: 'real-food', printLabel: 'DATES', servingUnit: 'date', servingStep: 1, carbs: 16, fructoseRatio: 1, sodium: 0, caffeine: 0, volume: 0 },
+  { id: 'rice-cake', name: 'rice cake', category: 'real-food', printLabel: 'RICE CAKE', servingUnit: 'rice cake', servingStep: 0.5, carbs: 25, fructoseRatio: 0, sodium: 150, caffeine: 0, volume: 0 },
+  { id: 'drink-mix', name: 'drink mix', category: 'drink-mix', printLabel: 'DRINK', servingUnit: 'bottle', servingStep: 0.25, carbs: 40, fructoseRatio: 0.8, sodium: 400, caffeine: 0, volume: 500 },
+  { id: 'electrolyte-tab', name: 'electrolyte tab', category: 'electrolyte', printLabel: 'TAB', servingUnit: 'tab', servingStep: 0.5, carbs: 0, fructoseRatio: null, sodium: 300, caffeine: 0, volume: 0 }
+];
+
+export class ProductCatalog {
+  private static readonly STORAGE_KEY = 'customProducts';
+  private static readonly MAX_CUSTOM_PRODUCTS = 50;
+
+  /**
+   * Gets built-in products followed by the rider's custom products
+   */
+  static getProducts(): NutritionProduct[] {
+    return [...BUILT_IN_PRODUCTS, ...this.getCustomProducts()];
+  }
+
+  /**
+   * Gets custom products saved in localStorage
+   */
+  static getCustomProducts(): NutritionProduct[] {
+    try {
+      const stored = localStorage.getItem(this.STORAGE_KEY);
+      if (!stored) return [];
+
+      const parsed = JSON.parse(stored);
+      if (!Array.isArray(parsed)) return [];
+      // Stored names reach the print view, so they are cleaned like newly added ones
+      return parsed
+        .filter(product => this.isValidProduct(product))
+        .map(product => this.sanitizeProduct(product))
+        .filter(product => product.name.length > 0);
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Validates and saves a custom product, returning the stored product
+   */
+  static addCustomProduct(product: Omit<NutritionProduct, 'id' | 'custom'>): NutritionProduct {
+    const existing = this.getCustomProducts();
+    if (existing.length >= this.MAX_CUSTOM_PRODUCTS) {
+      throw new Error(`You can save up to ${this.MAX_CUSTOM_PRODUCTS} custom products`);
+    }
+
+    const name = this.sanitizeName(product.name);
+    if (!name) {
+      throw new Error('Product name is required');
+    }
+
+    const stored: NutritionProduct = {
+      ...product,
+      id: `custom-${Date.now().toString(36)}`,
+      name,
+      printLabel: this.sanitizeName(product.printLabel || name).toUpperCase().substring(0, 12),
+      custom: true
+    };
+
+    if (!this.isValidProduct(stored)) {
+      throw new Error('Invalid product values');
+    }
+
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify([...existing, stored]));
+    return stored;
+  }
+
+  /**
+   * Removes a custom product by id
+   */
+  static removeCustomProduct(id: string): void {
+    const remaining = this.getCustomProducts().filter(product => product.id !== id);
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(remaining));
+  }
+
+  /**
+   * Checks that a stored product has sane per-serving values
+   */
+  private static isValidProduct(product: NutritionProduct): boolean {
+    const inRange = (value: unknown, max: number) =>
+      typeof value === 'number' && isFinite(value) && value >= 0 && value <= max;
+
+    return typeof product === 'object' && product !== null &&
+      typeof product.id === 'string' &&
+      typeof product.name === 'string' && product.name.length > 0 &&
+      typeof product.printLabel === 'string' &&
+      typeof product.servingUnit === 'string' &&
+      Object.prototype.hasOwnProperty.call(CATEGORY_TEXTURES, product.category) &&
+      inRange(product.carbs, 200) &&
+      inRange(product.sodium, 2000) &&
+      inRange(product.caffeine, 400) &&
+      inRange(product.volume, 1000) &&
+      [0.25, 0.5, 1].includes(product.servingStep) &&
+      (product.fructoseRatio === null || inRange(product.fructoseRatio, 2));
+  }
+
+  /**
+   * Cleans the text fields of a product read back from localStorage
+   */
+  private static sanitizeProduct(product: NutritionProduct): NutritionProduct {
+    const name = this.sanitizeName(product.name);
+    return {
+      ...product,
+      name,
+      printLabel: this.sanitizeName(product.printLabel || name).toUpperCase().substring(0, 12),
+      servingUnit: this.sanitizeName(product.servingUnit) || 'serving'
+    };
+  }
+
+  /**
+   * Strips markup and control characters from user-entered names (they end up in the print view)
+   */
+  private static sanitizeName(text: string): string {
+    return text
+      .replace(/[<>&"']/g, '')
+      .replace(/[\x00-\x1f\x7f-\x9f]/g, '')
+      .trim()
+      .substring(0, 40);
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Recorded ride analysis
+ * Reads moving time, stops and split speeds from timestamped activity files, so a repeat of the
+ * route can be planned at the pace the rider actually rode it
+ */
+
+import type { RoutePoint } from './routeAnalysis';
+import type { PacingPoint } from './speedModel';
+
+export interface RecordedStop {
+  distance: number; // km from the start
+  startTime: number; // minutes of elapsed time when the rider stopped
+  minutes: number;
+}
+
+export interface RecordedSplit {
+  startDistance: number; // km
+  endDistance: number; // km
+  minutes: number; // moving time
+  speed: number; // km/h moving average
+}
+
+export interface RecordedRide {
+  startTime: number; // ms since the epoch
+  elapsedMinutes: number;
+  movingMinutes: number;
+  movingSpeed: number; // km/h
+  stops: RecordedStop[];
+  splits: RecordedSplit[];
+  pacing: PacingPoint[]; // moving time at distance, stops removed
+}
+
+// Files from route planners sometimes stamp a handful of points; a recording stamps nearly all of them
+const MIN_TIMED_FRACTION = 0.9;
+
+// Slower than walking pace counts as stopped, which also covers GPS drift at a café table
+const MIN_MOVING_SPEED = 3; // km/h
+// Shorter stops (junctions, lights) still come off moving time but are not listed
+const MIN_STOP_MINUTES = 2;
+
+const SPLIT_KM = 10;
+// Pacing is sampled like the speed model's, keeping lookups cheap on dense recordings
+const PACING_STEP_KM = 0.1;
+
+/**
+ * True when the track's points carry timestamps, as a recorded activity's do
+ */
+export function isRecordedTrack(track: RoutePoint[]): boolean {
+  if (track.length < 2) return false;
+  const timed = track.filter(point => point.time !== undefined).length;
+  return timed >= track.length * MIN_TIMED_FRACTION;
+}
+
+/**
+ * Splits a recorded track into moving time and stops, with per-split moving speeds and
+ * the moving-time pacing used to replan the route. Returns null for untimed tracks.
+ */
+export function analyzeRecording(track: RoutePoint[]): RecordedRide | null {
+  if (!isRecordedTrack(track)) return null;
+
+  const timed = track.filter((point): point is RoutePoint & { time: number } => point.time !== undefined);
+  const startTime = timed[0].time;
+  const stops: RecordedStop[] = [];
+  const splits: RecordedSplit[] = [];
+  const pacing: PacingPoint[] = [{ distance: timed[0].distance, time: 0 }];
+  let movingSeconds = 0;
+  let elapsedSeconds = 0;
+  let stoppedSeconds = 0;
+  let stopStart = 0;
+  let splitStart = { distance: timed[0].distance, seconds: 0 };
+
+  const endStop = (distance: number) => {
+    if (stoppedSeconds >= MIN_STOP_MINUTES * 60) {
+      stops.push({ distance, startTime: stopStart / 60, minutes: stoppedSeconds / 60 });
+    }
+    stoppedSeconds = 0;
+  };
+
+  for (let i = 1; i < timed.length; i++) {
+    const previous = timed[i - 1];
+    const point = timed[i];
+    const seconds = (point.time - previous.time) / 1000;
+    // Out-of-order or duplicated timestamps add no time
+    if (seconds <= 0) continue;
+
+    const distance = point.distance - previous.distance;
+    if ((distance / seconds) * 3600 < MIN_MOVING_SPEED) {
+      if (stoppedSeconds === 0) stopStart = elapsedSeconds;
+      stoppedSeconds += seconds;
+    } else {
+      endStop(previous.distance);
+      movingSeconds += seconds;
+    }
+    elapsedSeconds += seconds;
+
+    const last = pacing[pacing.length - 1];
+    if (point.distance - last.distance >= PACING_STEP_KM || i === timed.length - 1) {
+      pacing.push({ distance: point.distance, time: movingSeconds / 60 });
+    }
+
+    if (point.distance - splitStart.distance >= SPLIT_KM || i === timed.length - 1) {
+      const splitSeconds = movingSeconds - splitStart.seconds;
+      const splitDistance = point.distance - splitStart.distance;
+      if (splitSeconds > 0 && splitDistance > 0) {
+        splits.push({
+          startDistance: splitStart.distance,
+          endDistance: point.distance,
+          minutes: splitSeconds / 60,
+          speed: Math.round((splitDistance / (splitSeconds / 3600)) * 10) / 10
+        });
+      }
+      splitStart = { distance: point.distance, seconds: movingSeconds };
+    }
+  }
+  endStop(timed[timed.length - 1].distance);
+
+  if (movingSeconds <= 0) return null;
+
+  const movingDistance = timed[timed.length - 1].distance - timed[0].distance;
+  return {
+    startTime,
+    elapsedMinutes: Math.round(elapsedSeconds / 60),
+    movingMinutes: Math.round(movingSeconds / 60),
+    movingSpeed: Math.round((movingDistance / (movingSeconds / 3600)) * 10) / 10,
+    stops,
+    splits,
+    pacing
+  };
+}
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeTrack, type TrackPoint } from './routeAnalysis';
+
+const line = (lat: number, count: number): TrackPoint[] =>
+  Array.from({ length: count }, (_, index) => ({ lat: lat + index * 0.001, lon: 7, ele: 100 }));
+
+describe('analyzeTrack', () => {
+  it('adds no distance across a gap between track segments', () => {
+    const [first, ...rest] = line(46, 11);
+    const gapped = analyzeTrack('Two days', [...line(45, 11), { ...first, segmentStart: true }, ...rest], []);
+    const oneSegment = analyzeTrack('One day', line(45, 11), []);
+
+    // The second segment starts ~110 km away but is the same length as the first
+    expect(gapped.distance).toBeCloseTo(oneSegment.distance * 2, 5);
+    expect(gapped.track[11]).toMatchObject({ segmentStart: true, distance: gapped.track[10].distance });
+  });
+});
@@ -0,0 +1,472 @@
+/**
+ * Route analysis utilities
+ * Turns parsed track points and waypoints into distance, elevation, climb and aid station data
+ */
+
+import { calculateBearing, calculateDistance } from './geo';
+import { analyzeRecording, type RecordedRide } from './rideRecording';
+import { DEFAULT_BIKE_MASS, estimateRouteTime } from './speedModel';
+
+export interface TrackPoint {
+  lat: number;
+  lon: number;
+  ele: number; // meters
+  time?: number; // ms since the epoch, on recorded rides
+  segmentStart?: boolean; // first point after a gap between track segments; no distance is counted across it
+}
+
+export interface RoutePoint extends TrackPoint {
+  distance: number; // km from the start
+}
+
+export interface RouteWaypoint {
+  lat: number;
+  lon: number;
+  name: string;
+  symbol: string; // GPX <sym> or <type>, used to classify the stop
+}
+
+export type AidStationType = 'cafe' | 'water' | 'shop' | 'aid';
+
+export interface AidStation {
+  id: string;
+  name: string;
+  type: AidStationType;
+  distance: number; // km along the route
+  source: 'gpx' | 'manual';
+}
+
+export type ClimbCategory = 'HC' | '1' | '2' | '3' | '4';
+
+export interface Climb {
+  startDistance: number;
+  endDistance: number;
+  elevationGain: number;
+  grade: number; // average, percent
+  length: number; // km
+  maxGrade: number; // steepest stretch of at least MAX_GRADE_WINDOW_KM, percent
+  score: number; // length in meters × average grade in percent
+  category: ClimbCategory | null; // null for climbs too small to categorize
+}
+
+export interface Descent {
+  startDistance: number;
+  endDistance: number;
+  elevationLoss: number; // meters
+  grade: number; // average, percent, positive going down
+  length: number; // km
+  maxGrade: number; // steepest stretch of at least MAX_GRADE_WINDOW_KM, percent
+  turning: number; // degrees of heading change per km, high on switchbacks
+  fast: boolean; // steep enough to be ridden well over 40 km/h
+  technical: boolean; // steep or twisty enough that nobody should be eating on it
+}
+
+export interface RouteData {
+  name: string;
+  distance: number; // in kilometers
+  elevationGain: number; // in meters, after smoothing - comparable with Strava/Garmin totals
+  rawElevationGain: number; // in meters, every positive point-to-point delta as recorded
+  estimatedTime: number; // in minutes, for a reference rider (see DEFAULT_ESTIMATE_POWER)
+  climbs: Climb[];
+  descents: Descent[];
+  aidStations: AidStation[];
+  track: RoutePoint[]; // elevation smoothed
+  recording: RecordedRide | null; // moving time, stops and pacing when the file is a recorded ride
+}
+
+// Reference rider for the route card estimate: 70kg at a steady endurance effort
+const DEFAULT_ESTIMATE_POWER = 140; // watts
+const DEFAULT_ESTIMATE_MASS = 70; // kg
+
+// Waypoints further than this from the track are not treated as stops on the route
+const MAX_WAYPOINT_OFFSET_KM = 0.5;
+// Degrees of latitude that MAX_WAYPOINT_OFFSET_KM spans, rounded up (a degree is ~111.2 km)
+const WAYPOINT_LATITUDE_BAND = MAX_WAYPOINT_OFFSET_KM / 111;
+
+// Turn-by-turn cue waypoints exported by route planners are not stops
+const CUE_PATTERN = /^(left|right|straight|slight|sharp|turn|u-turn|continue|keep|exit|merge|generic)\b/i;
+
+const STATION_PATTERNS: Array<{ type: AidStationType; pattern: RegExp }> = [
+  { type: 'cafe', pattern: /caf[eé]|coffee|restaurant|bakery|pub|bar\b|food/i },
+  { type: 'water', pattern: /water|fountain|tap|spring|drink/i },
+  { type: 'shop', pattern: /shop|store|market|gas|petrol|fuel|convenience|supermarket/i },
+  { type: 'aid', pattern: /aid|feed|checkpoint|control|rest stop|support/i }
+];
+
+// Category thresholds on length (m) × grade (%), as used by Strava and most route planners
+const CLIMB_CATEGORIES: Array<{ category: ClimbCategory; minScore: number }> = [
+  { category: 'HC', minScore: 80000 },
+  { category: '1', minScore: 64000 },
+  { category: '2', minScore: 32000 },
+  { category: '3', minScore: 16000 },
+  { category: '4', minScore: 8000 }
+];
+
+// GPS elevation is noisy point to point, so the steepest grade is measured over at least this distance
+const MAX_GRADE_WINDOW_KM = 0.1;
+
+// Barometric and GPS elevation wobbles by a few meters, so the profile is resampled and smoothed
+// before gain and climbs are measured
+const RESAMPLE_KM = 0.02;
+const SMOOTHING_WINDOW_KM = 0.2;
+// Rises smaller than this after smoothing are still treated as noise when totalling ascent
+const ELEVATION_GAIN_THRESHOLD = 2; // meters
+
+// Climbs and descents gaining or losing less than this are rollers
+const MIN_CLIMB_GAIN = 30; // meters
+const MIN_DESCENT_LOSS = 30; // meters
+// A climb or descent ends once the road goes back the other way by this much, or runs flat this far
+const RANGE_DROP_TOLERANCE = 10; // meters
+const RANGE_FLAT_KM = 0.5;
+// Descents this steep are ridden well over 40 km/h, too fast to let go of the bars
+const FAST_DESCENT_GRADE = 4; // percent
+// Two hairpins per km, or a short steep drop, makes a descent technical
+const TECHNICAL_TURNING = 360; // degrees per km
+const TECHNICAL_GRADE = 10; // percent
+// Headings are taken between points at least this far apart, so GPS jitter does not read as corners
+const TURN_SAMPLE_KM = 0.05;
+
+export const CLIMB_CATEGORY_LABELS: Record<ClimbCategory, string> = {
+  HC: 'HC',
+  '1': 'Cat 1',
+  '2': 'Cat 2',
+  '3': 'Cat 3',
+  '4': 'Cat 4'
+};
+
+export const AID_STATION_LABELS: Record<AidStationType, string> = {
+  cafe: 'café',
+  water: 'water stop',
+  shop: 'shop',
+  aid: 'aid station'
+};
+
+/**
+ * Classifies a waypoint as a kind of stop, or null for cues and other non-stop markers
+ */
+export function classifyWaypoint(name: string, symbol: string): AidStationType | null {
+  const text = `${name} ${symbol}`;
+  if (CUE_PATTERN.test(symbol.trim()) || CUE_PATTERN.test(name.trim())) return null;
+
+  const match = STATION_PATTERNS.find(({ pattern }) => pattern.test(text));
+  // Unlabelled waypoints are assumed to be generic stops the rider marked on purpose
+  return match ? match.type : 'aid';
+}
+
+/**
+ * Position and elevation at a distance along the track, interpolated between points
+ */
+export function interpolateTrack(track: RoutePoint[], distance: number): RoutePoint {
+  if (distance <= track[0].distance) return track[0];
+  for (let i = 1; i < track.length; i++) {
+    if (distance <= track[i].distance) {
+      const from = track[i - 1];
+      const to = track[i];
+      const span = to.distance - from.distance;
+      const fraction = span > 0 ? (distance - from.distance) / span : 0;
+      return {
+        lat: from.lat + fraction * (to.lat - from.lat),
+        lon: from.lon + fraction * (to.lon - from.lon),
+        ele: from.ele + fraction * (to.ele - from.ele),
+        distance
+      };
+    }
+  }
+  return track[track.length - 1];
+}
+
+/**
+ * Snaps waypoints to their nearest track point and returns them as aid stations in route order
+ */
+export function locateWaypoints(track: RoutePoint[], waypoints: RouteWaypoint[]): AidStation[] {
+  if (track.length === 0) return [];
+
+  const candidates = waypoints
+    .map((waypoint, index) => ({
+      waypoint,
+      index,
+      type: classifyWaypoint(waypoint.name, waypoint.symbol),
+      nearestIndex: 0,
+      nearestOffset: Infinity
+    }))
+    .filter(candidate => candidate.type !== null);
+  const byLatitude = [...candidates].sort((a, b) => a.waypoint.lat - b.waypoint.lat);
+
+  // One sweep of the track, comparing each point only with waypoints in the latitude band that could be in range
+  track.forEach((point, pointIndex) => {
+    let low = 0;
+    let high = byLatitude.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (byLatitude[mid].waypoint.lat < point.lat - WAYPOINT_LATITUDE_BAND) low = mid + 1;
+      else high = mid;
+    }
+    for (let i = low; i < byLatitude.length && byLatitude[i].waypoint.lat <= point.lat + WAYPOINT_LATITUDE_BAND; i++) {
+      const candidate = byLatitude[i];
+      const offset = calculateDistance(point.lat, point.lon, candidate.waypoint.lat, candidate.waypoint.lon);
+      if (offset < candidate.nearestOffset) {
+        candidate.nearestOffset = offset;
+        candidate.nearestIndex = pointIndex;
+      }
+    }
+  });
+
+  const stations: AidStation[] = [];
+  candidates.forEach(({ waypoint, index, type, nearestIndex, nearestOffset }) => {
+    if (type && nearestOffset <= MAX_WAYPOINT_OFFSET_KM) {
+      stations.push({
+        id: `gpx-${index}`,
+        name: waypoint.name || AID_STATION_LABELS[type],
+        type,
+        distance: Math.round(track[nearestIndex].distance * 10) / 10,
+        source: 'gpx'
+      });
+    }
+  });
+
+  return stations.sort((a, b) => a.distance - b.distance);
+}
+
+/**
+ * Categorizes a climb from its length and average grade, or null when it scores below Cat 4
+ */
+export function categorizeClimb(lengthKm: number, grade: number): ClimbCategory | null {
+  const score = lengthKm * 1000 * grade;
+  return CLIMB_CATEGORIES.find(({ minScore }) => score >= minScore)?.category ?? null;
+}
+
+/**
+ * Steepest grade (%) between two track indices, over windows of at least MAX_GRADE_WINDOW_KM.
+ * Pass a direction of -1 for the steepest drop.
+ */
+function getMaxGrade(track: RoutePoint[], startIndex: number, endIndex: number, direction: 1 | -1 = 1): number {
+  let maxGrade = 0;
+  let end = startIndex;
+  for (let start = startIndex; start < endIndex; start++) {
+    while (end < endIndex && track[end].distance - track[start].distance < MAX_GRADE_WINDOW_KM) end++;
+    const distanceKm = track[end].distance - track[start].distance;
+    // Climbs shorter than one window fall back to their overall grade
+    if (distanceKm < MAX_GRADE_WINDOW_KM && start > startIndex) break;
+    if (distanceKm > 0) {
+      maxGrade = Math.max(maxGrade, ((direction * (track[end].ele - track[start].ele)) / (distanceKm * 1000)) * 100);
+    }
+  }
+  return maxGrade;
+}
+
+/**
+ * Total heading change per km between two track indices
+ */
+function getTurning(track: RoutePoint[], startIndex: number, endIndex: number): number {
+  const length = track[endIndex].distance - track[startIndex].distance;
+  if (length <= 0) return 0;
+
+  let turning = 0;
+  let previousBearing: number | null = null;
+  let anchor = track[startIndex];
+  for (let i = startIndex + 1; i <= endIndex; i++) {
+    const point = track[i];
+    if (point.segmentStart) {
+      // No heading change across a gap in the recording
+      previousBearing = null;
+      anchor = point;
+      continue;
+    }
+    if (point.distance - anchor.distance < TURN_SAMPLE_KM) continue;
+    const bearing = calculateBearing(anchor.lat, anchor.lon, point.lat, point.lon);
+    if (previousBearing !== null) {
+      const change = Math.abs(bearing - previousBearing) % 360;
+      turning += change > 180 ? 360 - change : change;
+    }
+    previousBearing = bearing;
+    anchor = point;
+  }
+  return turning / length;
+}
+
+/**
+ * Resamples the profile every RESAMPLE_KM, takes a moving average over SMOOTHING_WINDOW_KM and maps
+ * it back onto the original points, so dense and sparse recordings smooth the same way
+ */
+export function smoothElevation(track: RoutePoint[]): RoutePoint[] {
+  if (track.length < 3) return track;
+
+  const totalDistance = track[track.length - 1].distance;
+  const samples: number[] = [];
+  let segment = 1;
+  for (let distance = 0; distance <= totalDistance; distance += RESAMPLE_KM) {
+    while (segment < track.length - 1 && track[segment].distance < distance) segment++;
+    const from = track[segment - 1];
+    const to = track[segment];
+    const span = to.distance - from.distance;
+    const fraction = span > 0 ? Math.min(1, Math.max(0, (distance - from.distance) / span)) : 0;
+    samples.push(from.ele + fraction * (to.ele - from.ele));
+  }
+
+  // Moving average via prefix sums, narrowing at either end of the route
+  const prefix = [0];
+  samples.forEach(ele => prefix.push(prefix[prefix.length - 1] + ele));
+  const halfWindow = Math.round(SMOOTHING_WINDOW_KM / 2 / RESAMPLE_KM);
+  const smoothed = samples.map((_, index) => {
+    const from = Math.max(0, index - halfWindow);
+    const to = Math.min(samples.length, index + halfWindow + 1);
+    return (prefix[to] - prefix[from]) / (to - from);
+  });
+
+  return track.map(point => {
+    const position = point.distance / RESAMPLE_KM;
+    const index = Math.min(smoothed.length - 1, Math.floor(position));
+    const next = Math.min(smoothed.length - 1, index + 1);
+    const ele = smoothed[index] + (position - index) * (smoothed[next] - smoothed[index]);
+    return { ...point, ele: Math.round(ele * 10) / 10 };
+  });
+}
+
+/**
+ * Total ascent with hysteresis: rises only count once they clear the threshold, so noise that
+ * wobbles up and down by less than that adds nothing. A threshold of 0 sums every positive delta.
+ */
+export function sumElevationGain(elevations: number[], threshold: number = 0): number {
+  if (elevations.length === 0) return 0;
+
+  let gain = 0;
+  let reference = elevations[0];
+  for (const ele of elevations) {
+    if (ele - reference > threshold) {
+      gain += ele - reference;
+      reference = ele;
+    } else if (reference - ele > threshold) {
+      reference = ele;
+    }
+  }
+  return gain;
+}
+
+/**
+ * Finds sustained climbs (direction 1) or descents (direction -1) with hysteresis: a range runs from
+ * its low point to its high point and ends once the road drops back by RANGE_DROP_TOLERANCE or runs
+ * flat for RANGE_FLAT_KM
+ */
+function findSustainedRanges(
+  track: RoutePoint[],
+  direction: 1 | -1,
+  minChange: number
+): Array<{ startIndex: number; endIndex: number; change: number }> {
+  const ranges: Array<{ startIndex: number; endIndex: number; change: number }> = [];
+  const height = (index: number) => direction * track[index].ele;
+  let low = 0;
+  let high = 0;
+
+  const close = () => {
+    const change = height(high) - height(low);
+    if (high > low && change > minChange) {
+      ranges.push({ startIndex: low, endIndex: high, change });
+    }
+  };
+
+  for (let i = 1; i < track.length; i++) {
+    if (height(i) > height(high)) high = i;
+
+    const droppedBack = height(high) - height(i) > RANGE_DROP_TOLERANCE;
+    const flattened = high > low && track[i].distance - track[high].distance > RANGE_FLAT_KM;
+    if (droppedBack || flattened) {
+      close();
+      low = i;
+      high = i;
+    } else if (height(i) < height(low) || (high === low && height(i) === height(low))) {
+      // Still flat or heading the other way, so the range has not started yet
+      low = i;
+      high = i;
+    }
+  }
+  close();
+
+  return ranges;
+}
+
+/**
+ * Computes distance, elevation gain, climbs and an elevation-aware time estimate for a track.
+ * Elevation is smoothed first; the unsmoothed gain is kept alongside for comparison.
+ * Gaps between track segments add no distance.
+ */
+export function analyzeTrack(
+  name: string,
+  points: TrackPoint[],
+  waypoints: RouteWaypoint[]
+): RouteData {
+  const rawTrack: RoutePoint[] = [];
+  let totalDistance = 0;
+  points.forEach((point, index) => {
+    if (index > 0 && !point.segmentStart) {
+      const previous = points[index - 1];
+      totalDistance += calculateDistance(previous.lat, previous.lon, point.lat, point.lon);
+    }
+    rawTrack.push({
+      lat: point.lat,
+      lon: point.lon,
+      ele: point.ele,
+      time: point.time,
+      segmentStart: point.segmentStart,
+      distance: totalDistance
+    });
+  });
+
+  const track = smoothElevation(rawTrack);
+  const elevations = track.map(point => point.ele);
+
+  const climbs: Climb[] = findSustainedRanges(track, 1, MIN_CLIMB_GAIN).map(({ startIndex, endIndex, change }) => {
+    const startDistance = track[startIndex].distance;
+    const endDistance = track[endIndex].distance;
+    const length = endDistance - startDistance;
+    const grade = length > 0 ? (change / (length * 1000)) * 100 : 0;
+    return {
+      startDistance,
+      endDistance,
+      elevationGain: change,
+      grade,
+      length,
+      maxGrade: Math.max(grade, getMaxGrade(track, startIndex, endIndex)),
+      score: Math.round(length * 1000 * grade),
+      category: categorizeClimb(length, grade)
+    };
+  });
+
+  const descents: Descent[] = findSustainedRanges(track, -1, MIN_DESCENT_LOSS).map(({ startIndex, endIndex, change }) => {
+    const startDistance = track[startIndex].distance;
+    const endDistance = track[endIndex].distance;
+    const length = endDistance - startDistance;
+    const grade = length > 0 ? (change / (length * 1000)) * 100 : 0;
+    const maxGrade = Math.max(grade, getMaxGrade(track, startIndex, endIndex, -1));
+    const turning = Math.round(getTurning(track, startIndex, endIndex));
+    return {
+      startDistance,
+      endDistance,
+      elevationLoss: change,
+      grade,
+      length,
+      maxGrade,
+      turning,
+      fast: grade >= FAST_DESCENT_GRADE,
+      technical: turning >= TECHNICAL_TURNING || maxGrade >= TECHNICAL_GRADE
+    };
+  });
+
+  const estimate = estimateRouteTime(track, {
+    power: DEFAULT_ESTIMATE_POWER,
+    riderMass: DEFAULT_ESTIMATE_MASS,
+    bikeMass: DEFAULT_BIKE_MASS
+  });
+
+  return {
+    name,
+    distance: totalDistance,
+    elevationGain: sumElevationGain(elevations, ELEVATION_GAIN_THRESHOLD),
+    rawElevationGain: sumElevationGain(points.map(point => point.ele)),
+    estimatedTime: estimate.minutes,
+    climbs,
+    descents,
+    aidStations: locateWaypoints(track, waypoints),
+    track,
+    recording: analyzeRecording(rawTrack)
+  };
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import type { RoutePoint } from './routeAnalysis';
+import { estimateRouteTime } from './speedModel';
+
+const options = { power: 180, riderMass: 70, bikeMass: 9 };
+
+// Points every 200m along a meridian, with distances as analyzeTrack would assign them
+function flatTrack(kilometers: number, ele: number, startDistance = 0): RoutePoint[] {
+  return Array.from({ length: kilometers * 5 + 1 }, (_, index) => ({
+    lat: 45 + (startDistance + index * 0.2) / 111,
+    lon: 7,
+    ele,
+    distance: startDistance + index * 0.2
+  }));
+}
+
+describe('estimateRouteTime', () => {
+  it('rides nothing across a gap between track segments', () => {
+    const [first, ...rest] = flatTrack(5, 1100, 5);
+    // The second segment starts 1000m higher, e.g. after a lift or a train ride
+    const gapped = [...flatTrack(5, 100), { ...first, segmentStart: true }, ...rest];
+    const continuous = flatTrack(10, 100);
+
+    const estimate = estimateRouteTime(gapped, options);
+    expect(estimate.minutes).toBe(estimateRouteTime(continuous, options).minutes);
+    expect(estimate.pacing[estimate.pacing.length - 1].distance).toBe(10);
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Physics speed model
+ * Estimates riding speed from power, grade, rider + bike mass, rolling resistance and aerodynamic drag
+ */
+
+import { calculateBearing } from './geo';
+import type { RoutePoint } from './routeAnalysis';
+
+export interface SpeedModelOptions {
+  power: number; // watts at the pedals
+  riderMass: number; // kg
+  bikeMass: number; // kg, bike + bottles + kit
+  crr?: number; // rolling resistance coefficient
+  cda?: number; // drag area in m²
+  wind?: WindConditions;
+}
+
+export interface WindConditions {
+  speed: number; // mph, as reported by the weather API
+  direction: number; // degrees the wind blows FROM (meteorological convention)
+}
+
+export interface PacingPoint {
+  distance: number; // km from the start
+  time: number; // minutes from the start
+}
+
+export interface WindSection {
+  startDistance: number; // km
+  endDistance: number; // km
+  headwind: number; // km/h effective headwind at rider height
+}
+
+export interface RouteTimeEstimate {
+  minutes: number;
+  averageSpeed: number; // km/h
+  power: number; // watts used for the estimate
+  totalMass: number; // kg
+  pacing: PacingPoint[]; // modelled time at distance, for placing alerts along the route
+  headwindSections: WindSection[];
+  windDelay: number; // minutes added (negative when saved) by the wind versus still air
+}
+
+const GRAVITY = 9.81; // m/s²
+const AIR_DENSITY = 1.225; // kg/m³ at sea level, 15°C
+const DRIVETRAIN_EFFICIENCY = 0.97;
+
+// Road tyres on decent tarmac, riding on the hoods
+export const DEFAULT_CRR = 0.005;
+export const DEFAULT_CDA = 0.36;
+export const DEFAULT_BIKE_MASS = 9;
+
+// Riders brake for corners and traffic, so descents are capped well below terminal velocity
+const MAX_SPEED = 60 / 3.6; // m/s
+const MIN_SPEED = 1; // m/s - walking pace on very steep ramps
+
+// GPS elevation is noisy point to point, so grades are measured over at least this distance
+const MIN_SEGMENT_KM = 0.1;
+const MAX_GRADE = 0.25;
+
+const MPH_TO_MS = 0.44704;
+// Forecasts give wind at 10m; at rider height it is roughly 70% of that
+const RIDER_HEIGHT_WIND_FACTOR = 0.7;
+// Stretches with at least this much effective headwind are called out on the route
+const HEADWIND_SECTION_KMH = 10;
+const MIN_HEADWIND_SECTION_KM = 1;
+
+/**
+ * Steady-state ground speed (m/s) on a grade, found by bisection on the power balance
+ */
+export function estimateSpeed(
+  power: number,
+  grade: number, // rise over run, e.g. 0.05 for 5%
+  totalMass: number,
+  crr: number = DEFAULT_CRR,
+  cda: number = DEFAULT_CDA,
+  headwind: number = 0 // m/s along the direction of travel, negative for a tailwind
+): number {
+  const angle = Math.atan(Math.max(-MAX_GRADE, Math.min(MAX_GRADE, grade)));
+  const resistance = totalMass * GRAVITY * (Math.sin(angle) + crr * Math.cos(angle));
+  const available = power * DRIVETRAIN_EFFICIENCY;
+  const surplus = (speed: number) => {
+    const airSpeed = speed + headwind;
+    return available - speed * resistance - 0.5 * AIR_DENSITY * cda * airSpeed * Math.abs(airSpeed) * speed;
+  };
+
+  if (surplus(MAX_SPEED) > 0) return MAX_SPEED;
+
+  let low = 0;
+  let high = MAX_SPEED;
+  for (let i = 0; i < 40; i++) {
+    const mid = (low + high) / 2;
+    if (surplus(mid) > 0) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return Math.max(MIN_SPEED, low);
+}
+
+/**
+ * Effective headwind (m/s) for a direction of travel; negative values are tailwinds
+ */
+export function getHeadwind(wind: WindConditions, bearing: number): number {
+  const angle = (wind.direction - bearing) * Math.PI / 180;
+  return wind.speed * MPH_TO_MS * RIDER_HEIGHT_WIND_FACTOR * Math.cos(angle);
+}
+
+/**
+ * Riding time over a track at constant power, summing segment by segment
+ */
+export function estimateRouteTime(track: RoutePoint[], options: SpeedModelOptions): RouteTimeEstimate {
+  const crr = options.crr ?? DEFAULT_CRR;
+  const cda = options.cda ?? DEFAULT_CDA;
+  const totalMass = options.riderMass + options.bikeMass;
+  const pacing: PacingPoint[] = track.length > 0 ? [{ distance: track[0].distance, time: 0 }] : [];
+  const headwindSections: WindSection[] = [];
+  let seconds = 0;
+  let stillAirSeconds = 0;
+  let anchor = track[0];
+
+  // Rides from the anchor to a point at the grade and headwind between them
+  const ride = (point: RoutePoint, distanceKm: number) => {
+    const grade = (point.ele - anchor.ele) / (distanceKm * 1000);
+    const meters = distanceKm * 1000;
+    const headwind = options.wind
+      ? getHeadwind(options.wind, calculateBearing(anchor.lat, anchor.lon, point.lat, point.lon))
+      : 0;
+    seconds += meters / estimateSpeed(options.power, grade, totalMass, crr, cda, headwind);
+    if (options.wind) {
+      stillAirSeconds += meters / estimateSpeed(options.power, grade, totalMass, crr, cda);
+    }
+    pacing.push({ distance: point.distance, time: seconds / 60 });
+
+    // Merge consecutive headwind segments into sections
+    const headwindKmh = headwind * 3.6;
+    const last = headwindSections[headwindSections.length - 1];
+    if (headwindKmh >= HEADWIND_SECTION_KMH) {
+      if (last && last.endDistance === anchor.distance) {
+        last.headwind = Math.max(last.headwind, Math.round(headwindKmh));
+        last.endDistance = point.distance;
+      } else {
+        headwindSections.push({ startDistance: anchor.distance, endDistance: point.distance, headwind: Math.round(headwindKmh) });
+      }
+    }
+    anchor = point;
+  };
+
+  for (let i = 1; i < track.length; i++) {
+    const point = track[i];
+    if (point.segmentStart) {
+      // Nothing is ridden across a gap in the recording: finish the segment before it and restart here
+      const previous = track[i - 1];
+      if (previous.distance > anchor.distance) ride(previous, previous.distance - anchor.distance);
+      anchor = point;
+      continue;
+    }
+
+    const distanceKm = point.distance - (anchor?.distance ?? 0);
+    if (distanceKm < MIN_SEGMENT_KM && i < track.length - 1) continue;
+    if (distanceKm <= 0) continue;
+    ride(point, distanceKm);
+  }
+
+  const distance = track.length > 0 ? track[track.length - 1].distance : 0;
+  const minutes = Math.round(seconds / 60);
+
+  return {
+    minutes,
+    averageSpeed: seconds > 0 ? Math.round((distance / (seconds / 3600)) * 10) / 10 : 0,
+    power: options.power,
+    totalMass,
+    pacing,
+    headwindSections: headwindSections.filter(
+      section => section.endDistance - section.startDistance >= MIN_HEADWIND_SECTION_KM
+    ),
+    windDelay: options.wind ? Math.round((seconds - stillAirSeconds) / 60) : 0
+  };
+}
+
+export interface RidePace {
+  timeAt: (distance: number) => number; // minutes at a km mark
+  distanceAt: (time: number) => number; // km at a minute mark
+}
+
+function interpolatePacing(pacing: PacingPoint[], key: 'distance' | 'time', value: number): number {
+  const other = key === 'distance' ? 'time' : 'distance';
+  if (value <= pacing[0][key]) return pacing[0][other];
+  for (let i = 1; i < pacing.length; i++) {
+    if (value <= pacing[i][key]) {
+      const span = pacing[i][key] - pacing[i - 1][key];
+      const fraction = span > 0 ? (value - pacing[i - 1][key]) / span : 0;
+      return pacing[i - 1][other] + fraction * (pacing[i][other] - pacing[i - 1][other]);
+    }
+  }
+  return pacing[pacing.length - 1][other];
+}
+
+/**
+ * Maps distance to time and back over a ride, following modelled pacing when there is one.
+ * Pacing is stretched to the planned duration so the two always agree at the finish.
+ */
+export function createPace(
+  pacing: PacingPoint[] | undefined,
+  rideDistance: number | null,
+  durationMinutes: number
+): RidePace | null {
+  const modelledTotal = pacing && pacing.length > 1 ? pacing[pacing.length - 1].time : 0;
+  if (pacing && modelledTotal > 0) {
+    const scale = durationMinutes / modelledTotal;
+    return {
+      timeAt: distance => interpolatePacing(pacing, 'distance', distance) * scale,
+      distanceAt: time => interpolatePacing(pacing, 'time', time / scale)
+    };
+  }
+
+  if (!rideDistance) return null;
+  const distancePerMinute = rideDistance / durationMinutes;
+  return {
+    timeAt: distance => distance / distancePerMinute,
+    distanceAt: time => time * distancePerMinute
+  };
+}